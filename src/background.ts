@@ -1,24 +1,71 @@
-import { createEventDirect, getAuthToken } from "~lib/calendar"
+import {
+  deleteEventDirect,
+  listCalendarsDirect,
+  listEventsDirect,
+  queryFreeBusyDirect,
+  updateEventDirect
+} from "~lib/calendar"
+import { getAuthToken, linkAccountDirect } from "~lib/googleApi"
+import { handleBackgroundMessages } from "~lib/messages"
+import {
+  createEventOrQueue,
+  discardOutboxItem,
+  OUTBOX_ALARM,
+  processOutbox
+} from "~lib/outbox"
+import { chatCompletionDirect } from "~lib/providers"
+import { migrateStorage } from "~lib/storage"
 
 export { }
 
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  if (request.type === "CREATE_EVENT") {
-    console.debug("Creating event:", request.payload)
-    createEventDirect(request.payload)
-      .then((data) => sendResponse({ data }))
-      .catch((error) => sendResponse({ error: error.message }))
-
-    // Return true to indicate async response
-    return true
-  }
-
-  if (request.type === "GET_AUTH_TOKEN") {
-    console.debug("Getting auth token, interactive:", request.payload.interactive)
-    getAuthToken(request.payload.interactive)
-      .then((token) => sendResponse({ token }))
-      .catch((error) => sendResponse({ error: error.toString() }))
-
-    return true
-  }
+// Bring storage from an older version up to date right after an update,
+// before any view reads it
+chrome.runtime.onInstalled.addListener(() => {
+  migrateStorage().catch((e) => console.error("Storage migration failed", e))
+})
+
+// Retry queued events when their backoff is up, when the connection comes
+// back, and after the browser restarts
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === OUTBOX_ALARM) processOutbox()
+})
+self.addEventListener("online", () => processOutbox(true))
+chrome.runtime.onStartup.addListener(() => processOutbox())
+
+handleBackgroundMessages({
+  CREATE_EVENT: (event) => {
+    console.debug("Creating event:", event)
+    // Queued instead of failing when the API can't be reached
+    return createEventOrQueue(event)
+  },
+
+  GET_AUTH_TOKEN: ({ interactive, accountId }) => {
+    console.debug("Getting auth token, interactive:", interactive)
+    return getAuthToken(interactive, accountId)
+  },
+
+  LINK_ACCOUNT: () => linkAccountDirect(),
+
+  CHAT_COMPLETION: ({ config, messages }) =>
+    chatCompletionDirect(config, messages),
+
+  LIST_EVENTS: (query) => listEventsDirect(query),
+
+  LIST_CALENDARS: ({ accountId }) => listCalendarsDirect(accountId),
+
+  UPDATE_EVENT: ({ eventId, patch, target }) => {
+    console.debug("Updating event:", eventId, patch)
+    return updateEventDirect(eventId, patch, target)
+  },
+
+  DELETE_EVENT: ({ eventId, target }) => {
+    console.debug("Deleting event:", eventId)
+    return deleteEventDirect(eventId, target)
+  },
+
+  QUERY_FREE_BUSY: (query) => queryFreeBusyDirect(query),
+
+  PROCESS_OUTBOX: () => processOutbox(true),
+
+  DISCARD_OUTBOX_ITEM: ({ id }) => discardOutboxItem(id)
 })
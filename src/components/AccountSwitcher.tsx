@@ -0,0 +1,111 @@
+import { AnimatePresence, motion } from "framer-motion"
+import { Check, ChevronDown, Loader2, Plus, X } from "lucide-react"
+import { useState } from "react"
+
+import { canLinkAccounts, type Account } from "~lib/accounts"
+
+interface AccountSwitcherProps {
+  accounts: Account[]
+  activeAccount?: Account
+  isLinking: boolean
+  onSwitch: (email: string) => void
+  onAdd: () => Promise<string | null>
+  onRemove: (email: string) => void
+}
+
+function AccountAvatar({ account }: { account: Account }) {
+  if (account.photoUrl) {
+    return <img src={account.photoUrl} alt="" className="h-4 w-4 rounded-full" referrerPolicy="no-referrer" />
+  }
+  return (
+    <span className="h-4 w-4 rounded-full bg-indigo-500/30 text-indigo-200 text-[9px] font-semibold flex items-center justify-center uppercase">
+      {(account.name || account.email)[0]}
+    </span>
+  )
+}
+
+export function AccountSwitcher({ accounts, activeAccount, isLinking, onSwitch, onAdd, onRemove }: AccountSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!activeAccount) return null
+
+  const handleAdd = async () => {
+    setError(null)
+    const message = await onAdd()
+    if (message) {
+      setError(message)
+    } else {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 max-w-[160px] px-2 py-1 rounded-full bg-white/5 hover:bg-white/10 text-white/50 hover:text-white text-xs transition-colors"
+        title="Switch Google account"
+      >
+        <AccountAvatar account={activeAccount} />
+        <span className="truncate">{activeAccount.email}</span>
+        <ChevronDown size={12} className="shrink-0" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 top-full mt-2 w-64 p-1.5 bg-[#141414] border border-white/10 rounded-xl shadow-2xl z-50"
+          >
+            {accounts.map((account) => (
+              <div key={account.email} className="group flex items-center gap-1">
+                <button
+                  onClick={() => {
+                    onSwitch(account.email)
+                    setIsOpen(false)
+                  }}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1.5 rounded-lg text-left hover:bg-white/10 transition-colors"
+                >
+                  <AccountAvatar account={account} />
+                  <span className="min-w-0 flex-1">
+                    {account.name && <span className="block text-xs text-white/90 truncate">{account.name}</span>}
+                    <span className="block text-[11px] text-white/40 truncate">{account.email}</span>
+                  </span>
+                  {account.email === activeAccount.email && <Check size={12} className="text-white/60 shrink-0" />}
+                </button>
+                {/* Chrome's own account can't be unlinked here */}
+                {account.source === "linked" && (
+                  <button
+                    onClick={() => onRemove(account.email)}
+                    className="p-1 rounded-md text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-all"
+                    title="Remove account"
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={handleAdd}
+              disabled={isLinking || !canLinkAccounts}
+              className="w-full flex items-center gap-2 px-2 py-1.5 mt-1 rounded-lg text-xs text-white/60 hover:text-white hover:bg-white/10 border-t border-white/5 transition-colors disabled:opacity-50"
+            >
+              {isLinking ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+              Add another account
+            </button>
+            {!canLinkAccounts && (
+              <p className="px-2 pt-1 text-[11px] text-white/40">
+                Adding accounts needs a Google web client ID in this build (PLASMO_PUBLIC_GOOGLE_WEB_CLIENT_ID).
+              </p>
+            )}
+            {error && <p className="px-2 pt-1 text-[11px] text-red-400">{error}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { HelpCircle, UserX, Users, X } from "lucide-react"
+import { useState } from "react"
+
+import type { CalendarEvent, UnresolvedAttendee } from "~lib/calendar"
+import type { Contact } from "~lib/contacts"
+
+interface AttendeeChipsProps {
+  attendees: CalendarEvent["attendees"]
+  // Names the contacts didn't settle on one person
+  unresolved?: UnresolvedAttendee[]
+  // Picks a candidate for `name`, or dismisses the name without one
+  onChoose?: (name: string, contact?: Contact) => void
+}
+
+/** Attendees of a review card; ones added by an @group mention are grouped under it. */
+export function AttendeeChips({ attendees = [], unresolved = [], onChoose }: AttendeeChipsProps) {
+  const [openName, setOpenName] = useState<string | null>(null)
+
+  if (attendees.length === 0 && unresolved.length === 0) return null
+
+  const groups = new Map<string, typeof attendees>()
+  const individuals = attendees.filter((att) => {
+    if (!att.group) return true
+    groups.set(att.group, [...(groups.get(att.group) || []), att])
+    return false
+  })
+  const ambiguous = unresolved.filter((u) => u.candidates.length > 0)
+  const unknown = unresolved.filter((u) => u.candidates.length === 0)
+
+  const chip = (att: (typeof attendees)[number], key: string | number) => (
+    <span key={key} className="text-[10px] bg-indigo-500/10 text-indigo-300 px-1.5 py-0.5 rounded border border-indigo-500/20" title={att.email}>
+      {att.displayName || att.email}
+    </span>
+  )
+
+  const choose = (name: string, contact?: Contact) => {
+    setOpenName(null)
+    onChoose?.(name, contact)
+  }
+
+  const open = ambiguous.find((u) => u.name === openName)
+
+  return (
+    <div className="mt-2 space-y-1">
+      {Array.from(groups, ([group, members]) => (
+        <div key={group} className="flex flex-wrap items-center gap-1">
+          <span className="flex items-center gap-1 text-[10px] text-white/40 pr-0.5">
+            <Users size={10} />
+            {group}
+          </span>
+          {members.map((att) => chip(att, att.email))}
+        </div>
+      ))}
+      {(individuals.length > 0 || ambiguous.length > 0) && (
+        <div className="flex flex-wrap gap-1">
+          {individuals.map((att, i) => chip(att, i))}
+          {ambiguous.map((u) => (
+            <button
+              key={u.name}
+              onClick={() => setOpenName(openName === u.name ? null : u.name)}
+              disabled={!onChoose}
+              className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border transition-colors ${
+                openName === u.name
+                  ? "bg-amber-500/20 text-amber-200 border-amber-500/40"
+                  : "bg-amber-500/10 text-amber-300 border-amber-500/20 hover:bg-amber-500/20"
+              }`}
+              title={`Which ${u.name}?`}
+            >
+              <HelpCircle size={10} />
+              {u.name}?
+            </button>
+          ))}
+        </div>
+      )}
+      {open && (
+        <div className="rounded-lg border border-white/10 bg-black/40 p-1">
+          {open.candidates.map((contact) => (
+            <button
+              key={contact.email}
+              onClick={() => choose(open.name, contact)}
+              className="w-full flex items-center justify-between gap-2 px-2 py-1 rounded-md text-left text-[11px] hover:bg-white/10 transition-colors"
+            >
+              <span className="text-white/90 truncate">{contact.name || contact.email}</span>
+              <span className="text-white/40 truncate">{contact.email}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => choose(open.name)}
+            className="w-full px-2 py-1 rounded-md text-left text-[11px] text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            None of these
+          </button>
+        </div>
+      )}
+      {unknown.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="flex items-center gap-1 text-[10px] text-white/40 pr-0.5">
+            <UserX size={10} />
+            Not in contacts
+          </span>
+          {unknown.map((u) => (
+            <span key={u.name} className="flex items-center gap-0.5 text-[10px] bg-white/5 text-white/50 pl-1.5 pr-0.5 py-0.5 rounded border border-white/10">
+              {u.name}
+              {onChoose && (
+                <button onClick={() => choose(u.name)} className="p-0.5 rounded hover:text-white hover:bg-white/10" title="Dismiss">
+                  <X size={9} />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,34 +1,43 @@
 import { useState, useEffect, useRef } from "react"
-import { X, Mic, Send, Check, Loader2, RefreshCcw, Download, Sparkles, Calendar } from "lucide-react"
-import { usePromptAPI } from "@ahnopologetic/use-prompt-api/react"
+import { X, Mic, Send, Loader2, Download, Sparkles, LayoutTemplate, ScrollText } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 
+import { useAccounts } from "../hooks/useAccounts"
+import { useCalendars } from "../hooks/useCalendars"
+import { useMentionShortcuts } from "../hooks/useMentionShortcuts"
+import { useModelProvider } from "../hooks/useModelProvider"
+import { useRequestFlow } from "../hooks/useRequestFlow"
 import { useSpeechRecognition } from "../hooks/useSpeechRecognition"
-import { createEvent, type CalendarEvent, getAuthToken } from "../lib/calendar"
+import { useStorage } from "../hooks/useStorage"
+import { getAuthToken } from "../lib/googleApi"
+import type { ContactAlias, ContactGroup } from "../lib/contactGroups"
 import { getContacts, type Contact, searchContacts } from "../lib/contacts"
 import { LannerAILogo } from "./LannerAILogo"
 import { ModelDownloadStatus } from "./ModelDownloadStatus"
-import { AIModelAvailability, normalizeAvailability } from "~lib/ai"
-import { getUserConfig, saveUserConfig, type AIPreference } from "~lib/storage"
+import { AccountSwitcher } from "./AccountSwitcher"
+import { CalendarSelect } from "./CalendarSelect"
+import { EventReview } from "./EventReview"
+import { OutboxStatus } from "./OutboxStatus"
+import { RecentChanges } from "./RecentChanges"
+import { RequestHistory } from "./RequestHistory"
+import { UndoToast } from "./UndoToast"
+import { AIModelAvailability } from "~lib/ai"
+import { applyComposerEdit, mentionAt, mentionFor, type ContactMention } from "~lib/composer"
+import { contactIndexFor } from "~lib/contactIndex"
+import type { HistoryEntry } from "~lib/history"
+import { matchingTemplates, templatesItem, type EventTemplate } from "~lib/templates"
+import { getUserConfig, saveUserConfig, type AIPreference, type RemoteModelConfig } from "~lib/storage"
 import { Onboarding } from "./Onboarding"
 import { GoogleSignIn } from "./GoogleSignIn"
+import { MentionHighlights } from "./MentionHighlights"
 import { MentionList } from "./MentionList"
+import { TemplateList } from "./TemplateList"
 
-// Move schema to a constant string for the prompt
-const SCHEMA_DEF = `
-{
-  "events": [
-    {
-      "title": "string",
-      "start": "ISO 8601 string (e.g., 2024-01-01T10:00:00)",
-      "end": "ISO 8601 string",
-      "location": "string (optional)",
-      "description": "string (optional)",
-      "attendees": ["email1@example.com", "email2@example.com"]
-    }
-  ]
-}
-`
+// Fewer local matches than this also asks the People API
+const MIN_LOCAL_MATCHES = 3
+
+// Shared by the textarea and the mention chips drawn behind it
+const COMPOSER_TEXT_CLASS = "w-full h-24 p-4 text-xl leading-relaxed"
 
 // Utility to get caret coordinates
 const getCaretCoordinates = (element: HTMLTextAreaElement, position: number) => {
@@ -71,10 +80,8 @@ const getCaretCoordinates = (element: HTMLTextAreaElement, position: number) =>
 export default function CalendarOverlay() {
   const [isOpen, setIsOpen] = useState(false)
   const [textInput, setTextInput] = useState("")
-  const [generatedEvents, setGeneratedEvents] = useState<CalendarEvent[]>([])
-
-  const [status, setStatus] = useState<"idle" | "generating" | "review" | "creating" | "success" | "error">("idle")
-  const [errorMessage, setErrorMessage] = useState("")
+  // Past requests, kept after the overlay resets
+  const [showHistory, setShowHistory] = useState(false)
 
   // Onboarding & Config & Auth
   const [isOnboarding, setIsOnboarding] = useState(true)
@@ -84,6 +91,9 @@ export default function CalendarOverlay() {
   // Contacts & Mentions
   const [contacts, setContacts] = useState<Contact[]>([])
   const [isSearching, setIsSearching] = useState(false)
+  // Contacts picked from the mention list, shown as chips in the textarea
+  const [mentions, setMentions] = useState<ContactMention[]>([])
+  const [composerScrollTop, setComposerScrollTop] = useState(0)
   const [mentionState, setMentionState] = useState<{
     active: boolean
     query: string
@@ -91,36 +101,43 @@ export default function CalendarOverlay() {
     top: number
     left: number
   }>({ active: false, query: "", start: 0, top: 0, left: 0 })
+  // Same for "/" commands, which insert a template's keyword
+  const [templateState, setTemplateState] = useState({ active: false, query: "", start: 0, top: 0, left: 0 })
+  const { value: templates } = useStorage(templatesItem)
+  const isTemplateListOpen = templateState.active && matchingTemplates(templates, templateState.query).length > 0
   
   const searchTimeoutRef = useRef<NodeJS.Timeout>()
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
   const { isListening, transcript, startListening, stopListening, resetTranscript } = useSpeechRecognition()
 
-  const { prompt, ready, availability } = usePromptAPI({
-    systemPrompt: `You are a helpful calendar assistant. 
-        The current time and timezone is ${new Date().toTimeString()}.
-        The current date is ${new Date().toDateString()}.
-        
-        INSTRUCTIONS:
-        1. Extract ONE OR MORE event details from the user's request.
-        2. Extract attendees from the text (emails found in brackets like <email@example.com> or just plain emails).
-        3. Respond ONLY with valid JSON matching this structure:
-        ${SCHEMA_DEF}
-        4. Rules:
-        ${"   "}- 'start' and 'end' MUST be valid ISO 8601 strings.
-        ${"   "}- If no end time, assume 1 hour.
-        ${"   "}- If no date, assume tomorrow.
-        ${"   "}- Infer relative dates from today.
-        ${"   "}- Do not add any markdown formatting (no markdown code blocks). Just the raw JSON string.
-        `
+  const { prompt, ready, availability: derivedAvailability } = useModelProvider()
+
+  // Linked Google accounts; the active one is used for new events and contacts
+  const accounts = useAccounts(isAuthenticated)
+  const activeEmail = accounts.activeAccount?.email
+  // Calendars new events can be written to
+  const { calendars, defaultCalendarId, changeDefault } = useCalendars(isAuthenticated, activeEmail)
+  // @group and @alias mentions offered next to contacts
+  const mentionShortcuts = useMentionShortcuts(isAuthenticated, activeEmail)
+
+  // Offline rule-based parsing when the on-device model can't be used
+  const [isBasicMode, setIsBasicMode] = useState(false)
+  const isModelAvailable = derivedAvailability === AIModelAvailability.AVAILABLE
+  const useModel = isModelAvailable && ready
+
+  // The request being planned and reviewed
+  const flow = useRequestFlow({
+    prompt: useModel ? prompt : null,
+    canPlan: useModel || isBasicMode,
+    choice: { accountId: activeEmail, calendars, defaultCalendarId },
+    onFinished: () => {
+      setIsOpen(false)
+      setTextInput("")
+      setMentions([])
+    }
   })
-
-  const [derivedAvailability, setDerivedAvailability] = useState<AIModelAvailability>(AIModelAvailability.UNKNOWN)
-
-  useEffect(() => {
-    setDerivedAvailability(normalizeAvailability(availability))
-  }, [availability])
+  const { status } = flow
 
   // Sync speech transcript to text input
   useEffect(() => {
@@ -142,8 +159,6 @@ export default function CalendarOverlay() {
         try {
           await getAuthToken(false)
           setIsAuthenticated(true)
-          // Fetch contacts in background
-          getContacts().then(setContacts)
         } catch (e) {
           setIsAuthenticated(false)
         } finally {
@@ -154,104 +169,52 @@ export default function CalendarOverlay() {
     }
   }, [isOpen])
 
+  // Contacts belong to the active account; fetch them in background whenever it changes
+  useEffect(() => {
+    if (isAuthenticated) {
+      getContacts().then(setContacts).catch(e => console.warn("Couldn't load contacts", e))
+    }
+  }, [isAuthenticated, activeEmail])
+
   const toggleOverlay = () => {
     setIsOpen(!isOpen)
     if (!isOpen) {
-      setGeneratedEvents([])
-      setStatus("idle")
+      flow.reset()
       setMentionState(prev => ({ ...prev, active: false }))
+      setTemplateState(prev => ({ ...prev, active: false }))
+      setShowHistory(false)
     }
   }
 
-  const handleOnboardingComplete = async (pref: AIPreference) => {
-    await saveUserConfig({ aiPreference: pref, onboardingCompleted: true })
+  const handleOnboardingComplete = async (pref: AIPreference, remoteModel?: RemoteModelConfig) => {
+    await saveUserConfig({ aiPreference: pref, onboardingCompleted: true, remoteModel })
     setIsOnboarding(false)
   }
 
   const handleAuthSuccess = () => {
     setIsAuthenticated(true)
-    getContacts().then(setContacts)
   }
 
-  const handleGenerate = async () => {
-    if (!textInput.trim() || !ready) return
-    setStatus("generating")
-    setErrorMessage("")
-
-    try {
-      const rawResult = await prompt(`User Request: ${textInput}`)
-      console.debug("Raw Model Output:", rawResult)
-
-      // clean up markdown if present
-      const cleanJson = rawResult.replace(/```json\n?|\n?```/g, "").trim()
-      const result = JSON.parse(cleanJson) // Expected { events: [...] }
-
-      // Validate basic structure
-      if (!result.events || !Array.isArray(result.events)) {
-        throw new Error("Invalid output format: expected 'events' array")
-      }
-
-      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
-
-      const events: CalendarEvent[] = result.events.map((evt: any) => {
-        if (!evt.title || !evt.start || !evt.end) {
-          throw new Error("Invalid event parameters")
-        }
-        return {
-          summary: evt.title,
-          description: evt.description,
-          location: evt.location,
-          attendees: evt.attendees ? evt.attendees.map((email: string) => ({ email })) : undefined,
-          start: {
-            dateTime: evt.start,
-            timeZone: timeZone
-          },
-          end: {
-            dateTime: evt.end,
-            timeZone: timeZone
-          }
-        }
-      })
-
-      setGeneratedEvents(events)
-      setStatus("review")
-    } catch (e) {
-      console.error(e)
-      setStatus("error")
-      setErrorMessage("Failed to parse event. Please try again.")
-    }
-  }
-
-  const handleApprove = async () => {
-    if (generatedEvents.length === 0) return
-    setStatus("creating")
-    try {
-      // Create all events in parallel
-      await Promise.all(generatedEvents.map(evt => createEvent(evt)))
-
-      setStatus("success")
-      setTimeout(() => {
-        setIsOpen(false)
-        setTextInput("")
-        setGeneratedEvents([])
-        setStatus("idle")
-      }, 2000)
-    } catch (e: any) {
-      setStatus("error")
-      setErrorMessage(e.message)
-    }
-  }
-
-  const handleRetry = () => {
-    setGeneratedEvents([])
-    setStatus("idle")
+  // Past requests are planned again as of now, so "tomorrow" is tomorrow
+  const handleRerun = (entry: HistoryEntry) => {
+    const chips = entry.mentions || []
+    setShowHistory(false)
+    setTextInput(entry.input)
+    setMentions(chips)
+    flow.generate(entry.input, chips)
   }
 
   // Mention Logic
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newVal = e.target.value
-    const newPos = e.target.selectionStart
+    // Edits that touch a chip remove or unlink the whole chip
+    const edit = applyComposerEdit(textInput, e.target.value, mentions)
+    const newVal = edit.text
+    const newPos = edit.cursor ?? e.target.selectionStart
     setTextInput(newVal)
+    setMentions(edit.mentions)
+    if (edit.cursor !== undefined) {
+      setTimeout(() => textareaRef.current?.setSelectionRange(newPos, newPos), 0)
+    }
 
     // Clear any pending search
     if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current)
@@ -259,9 +222,19 @@ export default function CalendarOverlay() {
     // Check for mention trigger
     // Look backwards from cursor for '@'
     const textBeforeCursor = newVal.slice(0, newPos)
-    const mentionMatch = textBeforeCursor.match(/(?<=^|\s)@(\w*)$/)
 
-    if (mentionMatch && mentionMatch.index !== undefined) {
+    // "/" at the start of a word offers templates
+    const commandMatch = textBeforeCursor.match(/(?<=^|\s)\/([^\s/]*)$/)
+    if (commandMatch && commandMatch.index !== undefined) {
+      const coords = getCaretCoordinates(e.target, commandMatch.index + 1)
+      setTemplateState({ active: true, query: commandMatch[1], start: commandMatch.index, top: coords.top - 220, left: coords.left })
+    } else {
+      setTemplateState(prev => ({ ...prev, active: false }))
+    }
+
+    const mentionMatch = textBeforeCursor.match(/(?<=^|\s)@([\p{L}\p{N}_.-]*)$/u)
+
+    if (mentionMatch && mentionMatch.index !== undefined && !mentionAt(newVal, edit.mentions, newPos)) {
       const query = mentionMatch[1]
       const start = mentionMatch.index
       
@@ -276,8 +249,8 @@ export default function CalendarOverlay() {
         left: coords.left
       })
 
-      // Debounced API search if query is long enough
-      if (query.length >= 2) {
+      // Debounced API search as a fallback when few local contacts match
+      if (query.length >= 2 && contactIndexFor(contacts).search(query, MIN_LOCAL_MATCHES).length < MIN_LOCAL_MATCHES) {
         setIsSearching(true)
         searchTimeoutRef.current = setTimeout(async () => {
           try {
@@ -293,6 +266,8 @@ export default function CalendarOverlay() {
                 return combined
               })
             }
+          } catch (e) {
+            console.warn("Contact search failed", e)
           } finally {
             setIsSearching(false)
           }
@@ -304,11 +279,10 @@ export default function CalendarOverlay() {
     }
   }
 
-  const handleSelectContact = (contact: Contact) => {
-    // Replace text after @ with Contact Name <email>
-    const before = textInput.slice(0, mentionState.start + 1) // Keep the @
+  // Replaces the text typed after the @ or / at `start`
+  const completeMention = (insert: string, start = mentionState.start) => {
+    const before = textInput.slice(0, start + 1) // Keep the @ or /
     const after = textInput.slice(textareaRef.current?.selectionStart || textInput.length)
-    const insert = `${contact.name} <${contact.email}> ` 
     
     const newText = before + insert + after
     setTextInput(newText)
@@ -324,6 +298,40 @@ export default function CalendarOverlay() {
     }, 0)
   }
 
+  // Contacts become chips; the contact itself goes along with the request
+  const handleSelectContact = (contact: Contact) => {
+    const mention = mentionFor(contact)
+    completeMention(`${mention.label.slice(1)} `)
+    setMentions(prev => [...prev, mention])
+  }
+
+  // Groups and aliases stay as @handle and are expanded when the request is planned
+  const handleSelectShortcut = (shortcut: ContactGroup | ContactAlias) => completeMention(`${shortcut.handle} `)
+
+  // Templates stay as /keyword and are applied when the request is planned
+  const handleSelectTemplate = (template: EventTemplate) => {
+    completeMention(`${template.keyword} `, templateState.start)
+    setTemplateState(prev => ({ ...prev, active: false }))
+  }
+
+  // Starts a "/" command at the caret, as if it had been typed
+  const handleInsertTemplate = () => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const pos = textarea.selectionStart ?? textInput.length
+    const insert = pos > 0 && !/\s/.test(textInput[pos - 1]) ? " /" : "/"
+    const start = pos + insert.length - 1
+    setTextInput(textInput.slice(0, pos) + insert + textInput.slice(pos))
+    setMentionState(prev => ({ ...prev, active: false }))
+
+    setTimeout(() => {
+      textarea.focus()
+      textarea.setSelectionRange(start + 1, start + 1)
+      const coords = getCaretCoordinates(textarea, start + 1)
+      setTemplateState({ active: true, query: "", start, top: coords.top - 220, left: coords.left })
+    }, 0)
+  }
+
   const renderMainContent = () => {
     if (isCheckingAuth) {
       return (
@@ -347,7 +355,11 @@ export default function CalendarOverlay() {
       )
     }
 
-    if (derivedAvailability !== AIModelAvailability.AVAILABLE) {
+    if (showHistory) {
+      return <RequestHistory onRerun={handleRerun} onClose={() => setShowHistory(false)} />
+    }
+
+    if (!isModelAvailable && !isBasicMode) {
       return (
         <motion.div
           key="download"
@@ -356,7 +368,7 @@ export default function CalendarOverlay() {
           exit={{ opacity: 0, y: -10 }}
           transition={{ duration: 0.2 }}
         >
-          <ModelDownloadStatus availability={derivedAvailability} />
+          <ModelDownloadStatus availability={derivedAvailability} onUseBasicMode={() => setIsBasicMode(true)} />
         </motion.div>
       )
     }
@@ -372,19 +384,21 @@ export default function CalendarOverlay() {
           className="space-y-4"
         >
           <div className="relative group">
+            <MentionHighlights text={textInput} mentions={mentions} scrollTop={composerScrollTop} className={COMPOSER_TEXT_CLASS} />
             <textarea
               ref={textareaRef}
-              className="w-full h-24 bg-transparent border-0 p-4 text-xl text-white placeholder-white/20 resize-none focus:ring-0 leading-relaxed focus:outline-none"
+              className={`relative ${COMPOSER_TEXT_CLASS} bg-transparent border-0 text-white placeholder-white/20 resize-none focus:ring-0 focus:outline-none`}
               placeholder="Coffee with @Ryan tomorrow at 10am..."
               style={{ fontFamily: "inherit" }}
               value={textInput}
               onChange={handleInput}
+              onScroll={(e) => setComposerScrollTop(e.currentTarget.scrollTop)}
               onKeyDown={(e) => {
                 // If mention list is active, we let it handle arrows/enter via its own listener?
                 // Actually, since the input has focus, we need to block here if needed.
                 // The MentionList component in previous step uses document listener, which works if we don't stopPropagation here.
                 // But we need to prevent the cursor from moving in textarea if we are navigating the list.
-                if (mentionState.active) {
+                if (mentionState.active || isTemplateListOpen) {
                     if (e.key === "ArrowDown" || e.key === "ArrowUp") {
                         e.preventDefault() 
                         // We need to signal MentionList to move. 
@@ -400,13 +414,14 @@ export default function CalendarOverlay() {
                     }
                     if (e.key === "Escape") {
                         setMentionState(prev => ({...prev, active: false}))
+                        setTemplateState(prev => ({...prev, active: false}))
                         return
                     }
                 }
 
                 if (e.key === "Enter" && !e.shiftKey) {
                   e.preventDefault()
-                  handleGenerate()
+                  flow.generate(textInput, mentions)
                 }
               }}
               disabled={status === "generating"}
@@ -419,26 +434,49 @@ export default function CalendarOverlay() {
                         contacts={contacts}
                         query={mentionState.query}
                         onSelect={handleSelectContact}
+                        shortcuts={mentionShortcuts.shortcuts}
+                        onSelectShortcut={handleSelectShortcut}
                         onClose={() => setMentionState(prev => ({...prev, active: false}))}
                         position={{ top: mentionState.top, left: mentionState.left }}
                         isLoading={isSearching}
                     />
                 )}
+                {templateState.active && !mentionState.active && (
+                    <TemplateList
+                        templates={templates}
+                        query={templateState.query}
+                        onSelect={handleSelectTemplate}
+                        onClose={() => setTemplateState(prev => ({...prev, active: false}))}
+                        position={{ top: templateState.top, left: templateState.left }}
+                    />
+                )}
             </AnimatePresence>
 
             {/* Action Bar */}
             <div className="flex items-center justify-between mt-2">
-              <button
-                className={`p-2.5 rounded-full transition-all duration-300 ${isListening ? "bg-red-500/20 text-red-400 ring-1 ring-red-500/50 animate-pulse" : "bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white"}`}
-                onClick={isListening ? stopListening : startListening}
-                disabled={status === "generating"}
-              >
-                <Mic size={18} />
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  className={`p-2.5 rounded-full transition-all duration-300 ${isListening ? "bg-red-500/20 text-red-400 ring-1 ring-red-500/50 animate-pulse" : "bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white"}`}
+                  onClick={isListening ? stopListening : startListening}
+                  disabled={status === "generating"}
+                >
+                  <Mic size={18} />
+                </button>
+                {templates.length > 0 && (
+                  <button
+                    className="p-2.5 rounded-full bg-white/5 text-gray-400 hover:bg-white/10 hover:text-white transition-all duration-300"
+                    onClick={handleInsertTemplate}
+                    disabled={status === "generating"}
+                    title="Insert a template"
+                  >
+                    <LayoutTemplate size={18} />
+                  </button>
+                )}
+              </div>
 
               <button
-                onClick={handleGenerate}
-                disabled={!textInput.trim() || status === "generating" || !ready}
+                onClick={() => flow.generate(textInput, mentions)}
+                disabled={!textInput.trim() || status === "generating" || (!ready && !isBasicMode)}
                 className={`
                                             flex items-center justify-center p-2.5 rounded-2xl transition-all duration-300
                                             ${!textInput.trim() || status === "generating"
@@ -455,11 +493,34 @@ export default function CalendarOverlay() {
             </div>
           </div>
 
+          {isBasicMode && !isModelAvailable && (
+            <div className="flex items-center justify-between text-xs text-white/40 px-1">
+              <span>Basic mode: AI unavailable, using the offline parser.</span>
+              <button
+                onClick={() => setIsBasicMode(false)}
+                className="underline underline-offset-2 hover:text-white transition-colors"
+              >
+                Set up AI
+              </button>
+            </div>
+          )}
+
           {status === "error" && (
             <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-red-400 text-sm animate-in fade-in slide-in-from-top-2">
-              {errorMessage || "Something went wrong."}
+              {flow.errorMessage || "Something went wrong."}
             </div>
           )}
+
+          {status === "idle" && (
+            <CalendarSelect
+              calendars={calendars}
+              value={defaultCalendarId}
+              onChange={changeDefault}
+              label="New events go to"
+            />
+          )}
+          {status === "idle" && <OutboxStatus />}
+          {status === "idle" && <RecentChanges />}
         </motion.div>
       )
     }
@@ -474,81 +535,27 @@ export default function CalendarOverlay() {
         transition={{ duration: 0.2 }}
         className="space-y-6"
       >
-        {status === "success" ? (
-          <div className="flex flex-col items-center justify-center py-8 text-center animate-in zoom-in-95 duration-300">
-            <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mb-4 ring-1 ring-green-500/30">
-              <Check size={32} className="text-green-400" />
-            </div>
-            <h3 className="text-xl font-bold text-white mb-1">Scheduled!</h3>
-            <p className="text-gray-400 text-sm">Your events have been added to the calendar.</p>
-          </div>
-        ) : (
-          <>
-            <div className="max-h-60 overflow-y-auto space-y-2 pr-2 -mr-2 scrollbar-none">
-              {generatedEvents.map((evt, idx) => (
-                <motion.div
-                  key={idx}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: idx * 0.05 }}
-                  className="group bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/10 p-4 rounded-2xl transition-all duration-200"
-                >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="space-y-1">
-                      <h3 className="font-semibold text-white/90 text-sm leading-tight">{evt.summary}</h3>
-                      {evt.location && (
-                        <p className="text-xs text-white/40 flex items-center gap-1.5">
-                          <span className="w-1 h-1 rounded-full bg-white/30"></span>
-                          {evt.location}
-                        </p>
-                      )}
-                    </div>
-                    <div className="text-xs font-medium text-white/60 bg-white/5 px-2 py-1 rounded-lg whitespace-nowrap">
-                      {evt.start.dateTime ? new Date(evt.start.dateTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }) : ""}
-                      <div className="text-[10px] text-white/30 text-right uppercase tracking-wider mt-0.5">
-                        {evt.start.dateTime ? new Date(evt.start.dateTime).toLocaleDateString([], { month: 'short', day: 'numeric' }) : ""}
-                      </div>
-                    </div>
-                  </div>
-                  {evt.attendees && evt.attendees.length > 0 && (
-                    <div className="mt-2 flex flex-wrap gap-1">
-                      {evt.attendees.map((att, i) => (
-                        <span key={i} className="text-[10px] bg-indigo-500/10 text-indigo-300 px-1.5 py-0.5 rounded border border-indigo-500/20">
-                          {att.email}
-                        </span>
-                      ))}
-                    </div>
-                  )}
-                  {evt.description && (
-                    <p className="mt-2 text-xs text-white/40 line-clamp-2 px-0.5">{evt.description}</p>
-                  )}
-                </motion.div>
-              ))}
-            </div>
-
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                onClick={handleRetry}
-                className="flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 text-white/60 hover:text-white rounded-xl font-medium transition-all text-sm group"
-              >
-                <RefreshCcw size={16} className="group-hover:-rotate-180 transition-transform duration-500" />
-                <span>Retry</span>
-              </button>
-              <button
-                onClick={handleApprove}
-                className="flex items-center justify-center gap-2 px-4 py-3 bg-white text-black hover:bg-gray-200 rounded-xl font-bold transition-all shadow-lg shadow-white/5 active:scale-95 text-sm"
-              >
-                {status === "creating" ? <Loader2 size={16} className="animate-spin" /> : <Calendar size={16} />}
-                <span>Add to Calendar</span>
-              </button>
-            </div>
-          </>
-        )}
+        <EventReview
+          flow={flow}
+          calendars={calendars}
+          defaultCalendarId={defaultCalendarId}
+          contacts={contacts}
+          shortcuts={mentionShortcuts.shortcuts}
+        />
       </motion.div>
     )
   }
   return (
     <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[9999] font-sans grid w-full max-w-xl pointer-events-none justify-items-center items-end">
+      {/* Undo toast - stays after the modal closes */}
+      <div className="absolute bottom-full mb-3 w-full flex justify-center">
+        <AnimatePresence>
+          {flow.lastChange && (
+            <UndoToast key={flow.lastChange.id} change={flow.lastChange} onDismiss={flow.dismissChange} />
+          )}
+        </AnimatePresence>
+      </div>
+
       {/* Main Modal */}
       <AnimatePresence>
         {isOpen && (
@@ -567,12 +574,33 @@ export default function CalendarOverlay() {
                   {isOnboarding ? "Setup" : (status === "review" ? "Review Plan" : "New Event")}
                 </span>
               </div>
-              <button
-                onClick={toggleOverlay}
-                className="p-1.5 rounded-full bg-white/5 hover:bg-white/10 text-white/40 hover:text-white transition-colors"
-              >
-                <X size={16} />
-              </button>
+              <div className="flex items-center gap-2">
+                {isAuthenticated && !isOnboarding && (
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className={`p-1.5 rounded-full transition-colors ${showHistory ? "bg-white/10 text-white" : "text-white/40 hover:text-white hover:bg-white/10"}`}
+                    title="History"
+                  >
+                    <ScrollText size={14} />
+                  </button>
+                )}
+                {isAuthenticated && !isOnboarding && (
+                  <AccountSwitcher
+                    accounts={accounts.accounts}
+                    activeAccount={accounts.activeAccount}
+                    isLinking={accounts.isLinking}
+                    onSwitch={accounts.switchAccount}
+                    onAdd={accounts.addAccount}
+                    onRemove={accounts.unlinkAccount}
+                  />
+                )}
+                <button
+                  onClick={toggleOverlay}
+                  className="p-1.5 rounded-full bg-white/5 hover:bg-white/10 text-white/40 hover:text-white transition-colors"
+                >
+                  <X size={16} />
+                </button>
+              </div>
             </div>
 
             <div className="p-6 pt-2">
@@ -0,0 +1,40 @@
+import { CalendarDays } from "lucide-react"
+
+import { calendarName, type CalendarListEntry } from "~lib/calendar"
+
+interface CalendarSelectProps {
+  calendars: CalendarListEntry[]
+  value?: string
+  onChange: (calendarId: string) => void
+  label?: string
+}
+
+export function CalendarSelect({ calendars, value = "primary", onChange, label }: CalendarSelectProps) {
+  // Nothing to choose between
+  if (calendars.length < 2) return null
+
+  // "primary" is an alias; show it as the user's own calendar
+  const selected = value === "primary" ? calendars.find((cal) => cal.primary)?.id || value : value
+  const color = calendars.find((cal) => cal.id === selected)?.backgroundColor
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-white/50 min-w-0">
+      <CalendarDays size={12} className="shrink-0" style={color ? { color } : undefined} />
+      {label && <span className="shrink-0">{label}</span>}
+      <select
+        value={selected}
+        onChange={(e) => {
+          const calendar = calendars.find((cal) => cal.id === e.target.value)
+          onChange(calendar?.primary ? "primary" : e.target.value)
+        }}
+        className="min-w-0 flex-1 truncate bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white/80 focus:outline-none focus:border-white/30 [color-scheme:dark]"
+      >
+        {calendars.map((cal) => (
+          <option key={cal.id} value={cal.id}>
+            {calendarName(cal)}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
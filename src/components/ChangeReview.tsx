@@ -0,0 +1,97 @@
+import { ArrowRight, Trash2 } from "lucide-react"
+
+import { isAllDay, type CalendarEvent, type ExistingEvent } from "~lib/calendar"
+import { parseLocalDate, shiftDate } from "~lib/dates"
+import { applyEventChanges, type PlannedChange } from "~lib/intent"
+
+interface ChangeReviewProps {
+  change: PlannedChange
+  selectedId: string
+  onSelect: (eventId: string) => void
+}
+
+const formatWhen = (event: CalendarEvent) => {
+  if (isAllDay(event)) {
+    const first = parseLocalDate(event.start.date)
+    const last = parseLocalDate(shiftDate(event.end.date || event.start.date, -1))
+    const day = (date: Date) => date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })
+    return last > first ? `${day(first)} – ${day(last)}, all day` : `${day(first)}, all day`
+  }
+  if (!event.start.dateTime) return ""
+
+  const start = new Date(event.start.dateTime)
+  const end = new Date(event.end.dateTime)
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return `${start.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}, ${time(start)} – ${time(end)}`
+}
+
+function DiffRow({ label, before, after }: { label: string; before?: string; after?: string }) {
+  if ((before || "") === (after || "")) return null
+  return (
+    <div className="text-xs space-y-0.5">
+      <div className="text-[10px] uppercase tracking-wider text-white/30">{label}</div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-red-300/70 line-through">{before || "—"}</span>
+        <ArrowRight size={12} className="text-white/30 shrink-0" />
+        <span className="text-green-300">{after || "—"}</span>
+      </div>
+    </div>
+  )
+}
+
+export function ChangeReview({ change, selectedId, onSelect }: ChangeReviewProps) {
+  const selected = change.candidates.find((evt) => evt.id === selectedId)
+  const updated = selected && change.intent === "update" ? applyEventChanges(selected, change.changes) : null
+
+  return (
+    <div className="space-y-3">
+      {change.candidates.length > 1 && (
+        <div className="space-y-1">
+          <div className="text-[10px] uppercase tracking-wider text-white/30 px-1">Which event?</div>
+          {change.candidates.map((evt: ExistingEvent) => (
+            <button
+              key={evt.id}
+              onClick={() => onSelect(evt.id)}
+              className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl text-left transition-colors border ${evt.id === selectedId
+                ? "bg-white/10 border-white/20"
+                : "bg-white/5 border-white/5 hover:bg-white/10"
+                }`}
+            >
+              <span className="text-sm text-white/90 truncate">{evt.summary || "(No title)"}</span>
+              <span className="text-[10px] text-white/40 whitespace-nowrap">{formatWhen(evt)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white/5 border border-white/5 p-4 rounded-2xl space-y-3">
+          {change.intent === "delete" ? (
+            <div className="flex items-start gap-3">
+              <div className="p-2 rounded-lg bg-red-500/10 text-red-400">
+                <Trash2 size={16} />
+              </div>
+              <div className="space-y-1">
+                <h3 className="font-semibold text-white/60 text-sm leading-tight line-through">{selected.summary}</h3>
+                <p className="text-xs text-white/40">{formatWhen(selected)}</p>
+                <p className="text-xs text-red-400">This event will be deleted.</p>
+              </div>
+            </div>
+          ) : (
+            <>
+              <h3 className="font-semibold text-white/90 text-sm leading-tight">{selected.summary}</h3>
+              <DiffRow label="Title" before={selected.summary} after={updated.summary} />
+              <DiffRow label="When" before={formatWhen(selected)} after={formatWhen(updated)} />
+              <DiffRow label="Location" before={selected.location} after={updated.location} />
+              <DiffRow label="Description" before={selected.description} after={updated.description} />
+              {formatWhen(selected) === formatWhen(updated) && selected.summary === updated.summary &&
+                selected.location === updated.location && selected.description === updated.description && (
+                  <p className="text-xs text-white/40">No changes detected. Try rephrasing the request.</p>
+                )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { AlertTriangle, ArrowRight } from "lucide-react"
+
+import type { EventConflict } from "~lib/conflicts"
+
+interface ConflictWarningProps {
+  conflicts: EventConflict[]
+  // Missing when there is no free slot to move to
+  onShift?: () => void
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+export function ConflictWarning({ conflicts, onShift }: ConflictWarningProps) {
+  if (conflicts.length === 0) return null
+
+  return (
+    <div className="mt-3 bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2 space-y-1.5">
+      <div className="flex items-start gap-2 text-xs text-amber-300">
+        <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+        <div className="space-y-0.5">
+          {conflicts.map((conflict, i) => (
+            <p key={i}>
+              Overlaps {conflict.summary ? <span className="font-medium">{conflict.summary}</span> : "a busy time"}
+              {" "}
+              <span className="text-amber-300/60">
+                ({formatTime(conflict.start)} – {formatTime(conflict.end)}{conflict.proposed ? ", in this plan" : ""})
+              </span>
+            </p>
+          ))}
+        </div>
+      </div>
+      {onShift ? (
+        <button
+          onClick={onShift}
+          className="flex items-center gap-1 text-[11px] font-medium text-amber-200 hover:text-white transition-colors"
+        >
+          <span>Shift to next free slot</span>
+          <ArrowRight size={11} />
+        </button>
+      ) : (
+        <p className="text-[11px] text-amber-300/60">No free slot in the next 24 hours.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { AlertCircle, Check, CloudOff, Loader2 } from "lucide-react"
+
+import type { CreationStatus } from "~lib/batch"
+
+interface CreationStatusLineProps {
+  status?: CreationStatus
+}
+
+export function CreationStatusLine({ status }: CreationStatusLineProps) {
+  if (!status) return null
+
+  if (status.state === "creating") {
+    return (
+      <p className="mt-2 text-[11px] text-white/40 flex items-center gap-1.5">
+        <Loader2 size={11} className="animate-spin" />
+        Adding to calendar...
+      </p>
+    )
+  }
+
+  if (status.state === "created") {
+    return (
+      <p className="mt-2 text-[11px] text-green-400 flex items-center gap-1.5">
+        <Check size={11} />
+        Added to calendar
+      </p>
+    )
+  }
+
+  if (status.state === "queued") {
+    return (
+      <p className="mt-2 text-[11px] text-amber-300/80 flex items-center gap-1.5">
+        <CloudOff size={11} />
+        Queued, will be added automatically
+      </p>
+    )
+  }
+
+  return (
+    <p className="mt-2 text-[11px] text-red-400 flex items-start gap-1.5">
+      <AlertCircle size={11} className="mt-0.5 shrink-0" />
+      <span>Failed: {status.error || "Unknown error"}</span>
+    </p>
+  )
+}
@@ -0,0 +1,226 @@
+import { AnimatePresence } from "framer-motion"
+import { Check, X } from "lucide-react"
+import { useState } from "react"
+
+import type { CalendarEvent } from "~lib/calendar"
+import { matchesShortcut, shortcutAttendees, type ContactAlias, type ContactGroup, type MentionShortcuts } from "~lib/contactGroups"
+import { contactIndexFor } from "~lib/contactIndex"
+import type { Contact } from "~lib/contacts"
+import { applyFormValues, toFormValues, type EventFormErrors, type EventFormValues } from "~lib/eventForm"
+import { MentionList } from "./MentionList"
+
+interface EventEditorProps {
+  event: CalendarEvent
+  contacts: Contact[]
+  shortcuts?: MentionShortcuts
+  onSave: (event: CalendarEvent) => void
+  onCancel: () => void
+}
+
+const EMAIL_LIKE_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-2.5 py-1.5 text-sm text-white placeholder-white/20 focus:outline-none focus:border-white/30 [color-scheme:dark]"
+const labelClass = "text-[10px] uppercase tracking-wider text-white/30"
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null
+  return <p className="text-[11px] text-red-400 mt-0.5">{message}</p>
+}
+
+export function EventEditor({ event, contacts, shortcuts, onSave, onCancel }: EventEditorProps) {
+  const [values, setValues] = useState<EventFormValues>(() => toFormValues(event))
+  const [errors, setErrors] = useState<EventFormErrors>({})
+  const [attendeeQuery, setAttendeeQuery] = useState("")
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  // Attendees added here through an @group, by email
+  const [addedGroups, setAddedGroups] = useState<Record<string, string>>({})
+
+  const update = <K extends keyof EventFormValues>(field: K, value: EventFormValues[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }))
+    setErrors(prev => ({ ...prev, [field]: undefined }))
+  }
+
+  const toggleAllDay = (allDay: boolean) => {
+    // Keep the chosen days when switching between date and date-time inputs
+    setValues(prev => ({
+      ...prev,
+      allDay,
+      start: allDay ? prev.start.slice(0, 10) : `${prev.start.slice(0, 10)}T09:00`,
+      end: allDay ? prev.end.slice(0, 10) : `${prev.start.slice(0, 10)}T10:00`
+    }))
+    setErrors({})
+  }
+
+  const addAttendee = (email: string) => {
+    const value = email.trim()
+    if (value && !values.attendees.includes(value)) {
+      update("attendees", [...values.attendees, value])
+    }
+    setAttendeeQuery("")
+    setShowSuggestions(false)
+  }
+
+  const addShortcut = (shortcut: ContactGroup | ContactAlias) => {
+    const added = shortcutAttendees(shortcut).filter(att => !values.attendees.includes(att.email))
+    update("attendees", [...values.attendees, ...added.map(att => att.email)])
+    setAddedGroups(prev => ({
+      ...prev,
+      ...Object.fromEntries(added.filter(att => att.group).map(att => [att.email, att.group]))
+    }))
+    setAttendeeQuery("")
+    setShowSuggestions(false)
+  }
+
+  const hasSuggestions = showSuggestions && attendeeQuery.length > 0 && (
+    contactIndexFor(contacts).search(attendeeQuery, 1).length > 0 ||
+    [...(shortcuts?.aliases || []), ...(shortcuts?.groups || [])].some(s => matchesShortcut(s, attendeeQuery))
+  )
+
+  const handleSave = () => {
+    const result = applyFormValues(event, values)
+    if (result.event) {
+      onSave({
+        ...result.event,
+        attendees: result.event.attendees?.map(att =>
+          !att.group && addedGroups[att.email] ? { ...att, group: addedGroups[att.email] } : att
+        )
+      })
+    } else {
+      setErrors(result.errors)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Title</label>
+        <input
+          className={inputClass}
+          value={values.title}
+          onChange={(e) => update("title", e.target.value)}
+          autoFocus
+        />
+        <FieldError message={errors.title} />
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-white/60">
+        <input
+          type="checkbox"
+          checked={values.allDay}
+          onChange={(e) => toggleAllDay(e.target.checked)}
+          className="accent-white"
+        />
+        All day
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Start</label>
+          <input
+            type={values.allDay ? "date" : "datetime-local"}
+            className={inputClass}
+            value={values.start}
+            onChange={(e) => update("start", e.target.value)}
+          />
+          <FieldError message={errors.start} />
+        </div>
+        <div>
+          <label className={labelClass}>End</label>
+          <input
+            type={values.allDay ? "date" : "datetime-local"}
+            className={inputClass}
+            value={values.end}
+            onChange={(e) => update("end", e.target.value)}
+          />
+          <FieldError message={errors.end} />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Location</label>
+        <input
+          className={inputClass}
+          value={values.location}
+          placeholder="Add location"
+          onChange={(e) => update("location", e.target.value)}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>Description</label>
+        <textarea
+          className={`${inputClass} resize-none h-16`}
+          value={values.description}
+          placeholder="Add description"
+          onChange={(e) => update("description", e.target.value)}
+        />
+      </div>
+
+      <div className="relative">
+        <label className={labelClass}>Attendees</label>
+        {values.attendees.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-1.5">
+            {values.attendees.map((email) => (
+              <span key={email} className="flex items-center gap-1 text-[10px] bg-indigo-500/10 text-indigo-300 pl-1.5 pr-1 py-0.5 rounded border border-indigo-500/20">
+                {email}
+                <button
+                  onClick={() => update("attendees", values.attendees.filter(a => a !== email))}
+                  className="hover:text-white"
+                >
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <input
+          className={inputClass}
+          value={attendeeQuery}
+          placeholder="Add people by name or email"
+          onChange={(e) => {
+            setAttendeeQuery(e.target.value)
+            setShowSuggestions(true)
+          }}
+          onKeyDown={(e) => {
+            // With suggestions open, MentionList handles Enter/Tab itself
+            if (hasSuggestions) return
+            if ((e.key === "Enter" || e.key === ",") && EMAIL_LIKE_RE.test(attendeeQuery.trim())) {
+              e.preventDefault()
+              addAttendee(attendeeQuery)
+            }
+          }}
+        />
+        <AnimatePresence>
+          {hasSuggestions && (
+            <MentionList
+              contacts={contacts}
+              query={attendeeQuery}
+              onSelect={(contact) => addAttendee(contact.email)}
+              shortcuts={shortcuts}
+              onSelectShortcut={addShortcut}
+              onClose={() => setShowSuggestions(false)}
+              position={{ top: 56, left: 0 }}
+            />
+          )}
+        </AnimatePresence>
+        <FieldError message={errors.attendees} />
+      </div>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/60 hover:text-white bg-white/5 hover:bg-white/10 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-black bg-white hover:bg-gray-200 transition-colors"
+        >
+          <Check size={12} />
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { motion } from "framer-motion"
+import { Calendar, Check, CheckCircle2, Circle, Loader2, Pencil, RefreshCcw, Repeat, Trash2, Video } from "lucide-react"
+
+import type { CalendarListEntry } from "~lib/calendar"
+import type { MentionShortcuts } from "~lib/contactGroups"
+import type { Contact } from "~lib/contacts"
+import { describeRecurrence } from "~lib/recurrence"
+import { EVENT_COLORS } from "~lib/templates"
+import type { RequestFlow } from "../hooks/useRequestFlow"
+import { AttendeeChips } from "./AttendeeChips"
+import { CalendarSelect } from "./CalendarSelect"
+import { ChangeReview } from "./ChangeReview"
+import { ConflictWarning } from "./ConflictWarning"
+import { CreationStatusLine } from "./CreationStatusLine"
+import { EventEditor } from "./EventEditor"
+import { EventTimeBadge } from "./EventTimeBadge"
+import { SlotPicker } from "./SlotPicker"
+
+interface EventReviewProps {
+  flow: RequestFlow
+  calendars: CalendarListEntry[]
+  defaultCalendarId?: string
+  // Attendee suggestions when editing events
+  contacts: Contact[]
+  shortcuts?: MentionShortcuts
+}
+
+/** The plan under review, or the confirmation once it has been saved. */
+export function EventReview({ flow, calendars, defaultCalendarId, contacts, shortcuts }: EventReviewProps) {
+  const { status, events, plannedChange, schedulePlan, editingIndex, conflicts, batch } = flow
+
+  if (status === "success") {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center animate-in zoom-in-95 duration-300">
+        <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mb-4 ring-1 ring-green-500/30">
+          <Check size={32} className="text-green-400" />
+        </div>
+        <h3 className="text-xl font-bold text-white mb-1">Scheduled!</h3>
+        <p className="text-gray-400 text-sm">
+          {plannedChange
+            ? "Your calendar has been updated."
+            : batch.queuedCount > 0
+              ? "Google Calendar couldn't be reached, so some events were queued. They'll be added automatically."
+              : "Your events have been added to the calendar."}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {plannedChange ? (
+        <div className="max-h-60 overflow-y-auto pr-2 -mr-2 scrollbar-none">
+          <ChangeReview change={plannedChange} selectedId={flow.selectedCandidateId} onSelect={flow.selectCandidate} />
+        </div>
+      ) : (
+      <div className="max-h-60 overflow-y-auto space-y-2 pr-2 -mr-2 scrollbar-none">
+        {schedulePlan && (
+          <SlotPicker plan={schedulePlan} selectedIndex={flow.selectedSlotIndex} onSelect={flow.selectSlot} />
+        )}
+        {events.map((evt, idx) => (
+          <motion.div
+            key={idx}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: idx * 0.05 }}
+            className={`group bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/10 p-4 rounded-2xl transition-all duration-200 ${batch.excluded.includes(idx) ? "opacity-40" : ""}`}
+          >
+            {editingIndex === idx ? (
+              <EventEditor
+                event={evt}
+                contacts={contacts}
+                shortcuts={shortcuts}
+                onSave={(edited) => flow.saveEdit(idx, edited)}
+                onCancel={() => flow.setEditingIndex(null)}
+              />
+            ) : (
+            <>
+              <div className="flex items-start justify-between gap-4">
+                <button
+                  onClick={() => batch.toggleExcluded(idx)}
+                  disabled={!!batch.statuses[idx] && batch.statuses[idx].state !== "failed"}
+                  className="mt-0.5 text-white/40 hover:text-white disabled:hover:text-white/40 transition-colors"
+                  title={batch.excluded.includes(idx) ? "Include event" : "Exclude event"}
+                >
+                  {batch.excluded.includes(idx) ? <Circle size={14} /> : <CheckCircle2 size={14} />}
+                </button>
+                <div className="space-y-1 flex-1 min-w-0">
+                  <h3 className="font-semibold text-white/90 text-sm leading-tight flex items-center gap-1.5">
+                    {evt.colorId && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: EVENT_COLORS[evt.colorId]?.hex }} />}
+                    {evt.summary}
+                  </h3>
+                  {evt.location && (
+                    <p className="text-xs text-white/40 flex items-center gap-1.5">
+                      <span className="w-1 h-1 rounded-full bg-white/30"></span>
+                      {evt.location}
+                    </p>
+                  )}
+                  {evt.recurrence && (
+                    <p className="text-xs text-white/40 flex items-center gap-1.5">
+                      <Repeat size={10} className="text-white/30" />
+                      {describeRecurrence(evt.recurrence)}
+                    </p>
+                  )}
+                  {evt.conferenceData && (
+                    <p className="text-xs text-white/40 flex items-center gap-1.5">
+                      <Video size={10} className="text-white/30" />
+                      Google Meet link
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-start gap-1">
+                  <EventTimeBadge event={evt} />
+                  <button
+                    onClick={() => flow.setEditingIndex(idx)}
+                    disabled={status === "creating" || batch.statuses[idx]?.state === "created"}
+                    className="p-1.5 rounded-lg text-white/30 hover:text-white hover:bg-white/10 opacity-0 group-hover:opacity-100 transition-all"
+                    title="Edit event"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                </div>
+              </div>
+              <AttendeeChips
+                attendees={evt.attendees}
+                unresolved={evt.unresolvedAttendees}
+                onChoose={(name, contact) => flow.chooseAttendee(idx, name, contact)}
+              />
+              {evt.description && (
+                <p className="mt-2 text-xs text-white/40 line-clamp-2 px-0.5">{evt.description}</p>
+              )}
+              {!batch.statuses[idx] || batch.statuses[idx].state === "failed" ? (
+                <div className="mt-2">
+                  <CalendarSelect
+                    calendars={calendars}
+                    value={evt.calendarId || defaultCalendarId}
+                    onChange={(calendarId) => flow.changeCalendar(idx, calendarId)}
+                  />
+                </div>
+              ) : null}
+              <ConflictWarning
+                conflicts={conflicts[idx] || []}
+                onShift={conflicts[idx]?.length && flow.findFreeSlot(idx) ? () => flow.shiftToFreeSlot(idx) : undefined}
+              />
+              <CreationStatusLine status={batch.statuses[idx]} />
+            </>
+            )}
+          </motion.div>
+        ))}
+        {flow.isCheckingConflicts && (
+          <p className="text-[11px] text-white/30 flex items-center gap-1.5 px-1">
+            <Loader2 size={10} className="animate-spin" />
+            Checking your calendar for conflicts...
+          </p>
+        )}
+      </div>
+      )}
+
+      {batch.failedCount > 0 && status === "review" && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-red-400 text-sm">
+          {batch.createdCount} added, {batch.failedCount} failed. Edit or exclude the failed events, or retry them.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={flow.reset}
+          className="flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 text-white/60 hover:text-white rounded-xl font-medium transition-all text-sm group"
+        >
+          <RefreshCcw size={16} className="group-hover:-rotate-180 transition-transform duration-500" />
+          <span>Retry</span>
+        </button>
+        <button
+          onClick={flow.approve}
+          disabled={editingIndex !== null || status === "creating" || (!plannedChange && batch.pendingCount === 0)}
+          className="disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 px-4 py-3 bg-white text-black hover:bg-gray-200 rounded-xl font-bold transition-all shadow-lg shadow-white/5 active:scale-95 text-sm"
+        >
+          {status === "creating" ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : plannedChange?.intent === "delete" ? (
+            <Trash2 size={16} />
+          ) : (
+            <Calendar size={16} />
+          )}
+          <span>
+            {plannedChange
+              ? (plannedChange.intent === "delete" ? "Delete Event" : "Apply Changes")
+              : batch.failedCount > 0
+                ? `Retry Failed (${batch.failedCount})`
+                : "Add to Calendar"}
+          </span>
+        </button>
+      </div>
+    </>
+  )
+}
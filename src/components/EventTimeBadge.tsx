@@ -0,0 +1,34 @@
+import { isAllDay, type CalendarEvent } from "~lib/calendar"
+import { parseLocalDate, shiftDate } from "~lib/dates"
+
+interface EventTimeBadgeProps {
+  event: CalendarEvent
+}
+
+const formatDay = (date: Date) => date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+
+export function EventTimeBadge({ event }: EventTimeBadgeProps) {
+  let primary = ""
+  let secondary = ""
+
+  if (isAllDay(event)) {
+    // end.date is exclusive, so the last day is the one before it
+    const first = parseLocalDate(event.start.date)
+    const last = parseLocalDate(event.end.date ? shiftDate(event.end.date, -1) : event.start.date)
+    primary = "All day"
+    secondary = last > first ? `${formatDay(first)} – ${formatDay(last)}` : formatDay(first)
+  } else if (event.start.dateTime) {
+    const start = new Date(event.start.dateTime)
+    primary = start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+    secondary = formatDay(start)
+  }
+
+  return (
+    <div className="text-xs font-medium text-white/60 bg-white/5 px-2 py-1 rounded-lg whitespace-nowrap">
+      {primary}
+      <div className="text-[10px] text-white/30 text-right uppercase tracking-wider mt-0.5">
+        {secondary}
+      </div>
+    </div>
+  )
+}
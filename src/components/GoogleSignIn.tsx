@@ -1,7 +1,7 @@
 import { motion } from "framer-motion"
 import { Chrome, ArrowRight, AlertCircle, Loader2 } from "lucide-react"
 import { useState } from "react"
-import { getAuthToken } from "~lib/calendar"
+import { getAuthToken } from "~lib/googleApi"
 
 interface GoogleSignInProps {
   onSuccess: () => void
@@ -0,0 +1,41 @@
+import { findMentionSpans, type ContactMention } from "~lib/composer"
+
+interface MentionHighlightsProps {
+  text: string
+  mentions: ContactMention[]
+  // The textarea's scroll offset, so chips stay under their text
+  scrollTop: number
+  // Box and font classes of the textarea this sits behind
+  className: string
+}
+
+/** Draws mention chips behind a transparent textarea, aligned with its text. */
+export function MentionHighlights({ text, mentions, scrollTop, className }: MentionHighlightsProps) {
+  const spans = findMentionSpans(text, mentions)
+  if (spans.length === 0) return null
+
+  const parts: React.ReactNode[] = []
+  let last = 0
+  for (const span of spans) {
+    parts.push(text.slice(last, span.start))
+    parts.push(
+      <mark key={span.start} className="bg-indigo-500/25 text-transparent rounded-md ring-1 ring-indigo-400/30">
+        {text.slice(span.start, span.end)}
+      </mark>
+    )
+    last = span.end
+  }
+  // A trailing newline needs a character after it to take up a line
+  parts.push(text.slice(last) + " ")
+
+  return (
+    <div aria-hidden className="absolute inset-x-0 top-0 overflow-hidden pointer-events-none">
+      <div
+        className={`${className} whitespace-pre-wrap break-words text-transparent`}
+        style={{ fontFamily: "inherit", transform: `translateY(${-scrollTop}px)` }}
+      >
+        {parts}
+      </div>
+    </div>
+  )
+}
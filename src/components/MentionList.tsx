@@ -1,7 +1,14 @@
 import { motion } from "framer-motion"
+import { AtSign, Users } from "lucide-react"
 import { useEffect, useState } from "react"
+import { isGroup, matchesShortcut, type ContactAlias, type ContactGroup, type MentionShortcuts } from "~lib/contactGroups"
+import { contactIndexFor } from "~lib/contactIndex"
 import type { Contact } from "~lib/contacts"
 
+type Shortcut = ContactGroup | ContactAlias
+
+const MAX_SHORTCUTS = 3
+
 interface MentionListProps {
   contacts: Contact[]
   query: string
@@ -9,15 +16,28 @@ interface MentionListProps {
   onClose: () => void
   position: { top: number; left: number }
   isLoading?: boolean
+  // Groups and aliases are only offered when they can be selected
+  shortcuts?: MentionShortcuts
+  onSelectShortcut?: (shortcut: Shortcut) => void
 }
 
-export function MentionList({ contacts, query, onSelect, onClose, position, isLoading }: MentionListProps) {
+export function MentionList({ contacts, query, onSelect, onClose, position, isLoading, shortcuts, onSelectShortcut }: MentionListProps) {
   const [selectedIndex, setSelectedIndex] = useState(0)
 
-  const filtered = contacts.filter(c =>
-    c.name.toLowerCase().includes(query.toLowerCase()) ||
-    c.email.toLowerCase().includes(query.toLowerCase())
-  ).slice(0, 5) // Limit to 5
+  const matchingShortcuts: Shortcut[] = onSelectShortcut && shortcuts
+    ? [...shortcuts.aliases, ...shortcuts.groups].filter(s => matchesShortcut(s, query)).slice(0, MAX_SHORTCUTS)
+    : []
+  // Ranked local matches; instant and available offline
+  const filtered = contactIndexFor(contacts).search(query)
+  const itemCount = matchingShortcuts.length + filtered.length
+
+  const selectItem = (index: number) => {
+    if (index < matchingShortcuts.length) {
+      onSelectShortcut(matchingShortcuts[index])
+    } else {
+      onSelect(filtered[index - matchingShortcuts.length])
+    }
+  }
 
   useEffect(() => {
     setSelectedIndex(0)
@@ -25,21 +45,21 @@ export function MentionList({ contacts, query, onSelect, onClose, position, isLo
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (filtered.length === 0 || isLoading) return
+      if (itemCount === 0 || isLoading) return
 
       switch (e.key) {
         case "ArrowDown":
           e.preventDefault()
-          setSelectedIndex(i => (i + 1) % filtered.length)
+          setSelectedIndex(i => (i + 1) % itemCount)
           break
         case "ArrowUp":
           e.preventDefault()
-          setSelectedIndex(i => (i - 1 + filtered.length) % filtered.length)
+          setSelectedIndex(i => (i - 1 + itemCount) % itemCount)
           break
         case "Enter":
         case "Tab":
           e.preventDefault()
-          onSelect(filtered[selectedIndex])
+          selectItem(selectedIndex)
           break
         case "Escape":
           e.preventDefault()
@@ -50,9 +70,9 @@ export function MentionList({ contacts, query, onSelect, onClose, position, isLo
 
     document.addEventListener("keydown", handleKeyDown)
     return () => document.removeEventListener("keydown", handleKeyDown)
-  }, [filtered, selectedIndex, onSelect, onClose, isLoading])
+  }, [filtered, matchingShortcuts, selectedIndex, onSelect, onSelectShortcut, onClose, isLoading])
 
-  if (!isLoading && filtered.length === 0) return null
+  if (!isLoading && itemCount === 0) return null
 
   return (
     <motion.div
@@ -70,6 +90,26 @@ export function MentionList({ contacts, query, onSelect, onClose, position, isLo
         {isLoading && <div className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse" />}
       </div>
       <div className="max-h-64 overflow-y-auto py-1">
+        {matchingShortcuts.map((shortcut, i) => (
+          <button
+            key={`@${shortcut.handle}`}
+            onClick={() => onSelectShortcut(shortcut)}
+            className={`w-full flex items-center gap-3 px-3 py-2 text-left transition-colors ${i === selectedIndex ? "bg-white/10" : "bg-white/5 hover:bg-white/20"
+              }`}
+          >
+            <div className="w-6 h-6 rounded-full bg-emerald-500/20 flex items-center justify-center text-emerald-300">
+              {isGroup(shortcut) ? <Users size={12} /> : <AtSign size={12} />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-white truncate">@{shortcut.handle}</div>
+              <div className="text-xs text-white/40 truncate">
+                {isGroup(shortcut)
+                  ? `${shortcut.name} · ${shortcut.members.length} ${shortcut.members.length === 1 ? "person" : "people"}`
+                  : shortcut.name ? `${shortcut.name} <${shortcut.email}>` : shortcut.email}
+              </div>
+            </div>
+          </button>
+        ))}
         {isLoading && filtered.length === 0 ? (
           <div className="px-3 py-4 text-center">
             <div className="text-xs text-white/20">Searching...</div>
@@ -80,7 +120,7 @@ export function MentionList({ contacts, query, onSelect, onClose, position, isLo
               key={contact.id}
               onClick={() => onSelect(contact)}
               disabled={isLoading}
-              className={`w-full flex items-center gap-3 px-3 py-2 text-left transition-colors ${i === selectedIndex ? "bg-white/10" : "bg-white/5 hover:bg-white/20"
+              className={`w-full flex items-center gap-3 px-3 py-2 text-left transition-colors ${i + matchingShortcuts.length === selectedIndex ? "bg-white/10" : "bg-white/5 hover:bg-white/20"
                 }`}
             >
               {contact.photoUrl ? (
@@ -1,12 +1,14 @@
 import { useState, useEffect } from "react"
 import { Download, RefreshCw, X, Sparkles } from "lucide-react"
 import { AIModelAvailability } from "~lib/ai"
+import { modelRestartRequiredItem } from "~lib/storage"
 
 interface ModelDownloadStatusProps {
   availability: AIModelAvailability
+  onUseBasicMode?: () => void
 }
 
-export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps) {
+export function ModelDownloadStatus({ availability, onUseBasicMode }: ModelDownloadStatusProps) {
   const [downloadProgress, setDownloadProgress] = useState<number>(0)
   const [isDownloading, setIsDownloading] = useState(false)
   const [restartRequired, setRestartRequired] = useState(false)
@@ -16,15 +18,15 @@ export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps)
 
   useEffect(() => {
     // Check if restart was previously requested
-    chrome.storage.local.get("restartRequired", (result) => {
-      if (result.restartRequired) {
+    modelRestartRequiredItem.get().then((restartRequired) => {
+      if (restartRequired) {
         // If availability is now "readily" (or "available"), then the restart likely happened or model became available
         // But typically if we just set the flag, we want to show the message until they restart.
         // However, if the model IS available, we shouldn't block them.
         if (availability === AIModelAvailability.AVAILABLE) {
           // actually looking at the previous file, it used 'availability !== "available"'
           // effectively clearing it if it works now.
-          chrome.storage.local.remove("restartRequired")
+          modelRestartRequiredItem.remove()
           setRestartRequired(false)
         } else {
           setRestartRequired(true)
@@ -54,7 +56,7 @@ export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps)
       // For Chrome built-in AI, often a restart is needed after first download.
 
       setRestartRequired(true)
-      chrome.storage.local.set({ restartRequired: true })
+      modelRestartRequiredItem.set(true)
 
     } catch (e: any) {
       console.error(e)
@@ -64,6 +66,16 @@ export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps)
     }
   }
 
+  // Lets users keep scheduling with the offline rule-based parser
+  const basicModeButton = onUseBasicMode && (
+    <button
+      onClick={onUseBasicMode}
+      className="text-xs text-white/40 hover:text-white underline underline-offset-2 transition-colors"
+    >
+      Continue without AI (basic mode)
+    </button>
+  )
+
   if (availability === AIModelAvailability.NOT_SUPPORTED) {
     if (!isChrome) {
       return (
@@ -77,6 +89,7 @@ export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps)
               This feature requires Google Chrome's built-in AI capabilities.
             </p>
           </div>
+          {basicModeButton}
         </div>
       )
     }
@@ -109,6 +122,7 @@ export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps)
         <div className="text-xs text-white/40 pt-2">
           Relaunch Chrome after enabling flags
         </div>
+        {basicModeButton}
       </div>
     )
   }
@@ -128,6 +142,7 @@ export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps)
         <div className="text-xs text-white/30">
           chrome://restart
         </div>
+        {basicModeButton}
       </div>
     )
   }
@@ -171,6 +186,7 @@ export function ModelDownloadStatus({ availability }: ModelDownloadStatusProps)
           )}
         </div>
       )}
+      {basicModeButton}
     </div>
   )
 }
@@ -1,25 +1,53 @@
 import { motion } from "framer-motion"
 import { ShieldCheck, Zap, ArrowRight, Server, Lock } from "lucide-react"
 import { useState } from "react"
-import type { AIPreference } from "~lib/storage"
+import { DEFAULT_REMOTE_MODEL, type AIPreference, type RemoteModelConfig } from "~lib/storage"
 
 interface OnboardingProps {
-    onComplete: (preference: AIPreference) => void
+    onComplete: (preference: AIPreference, remoteModel?: RemoteModelConfig) => void
+}
+
+// Host permission for a custom endpoint, when it isn't covered by the manifest.
+// chrome.permissions is unavailable in content scripts; the background fetch
+// reports the failure there instead.
+const requestEndpointPermission = async (baseUrl: string) => {
+    if (typeof chrome.permissions === "undefined") return
+    try {
+        const origin = `${new URL(baseUrl).origin}/*`
+        await chrome.permissions.request({ origins: [origin] })
+    } catch (e) {
+        console.warn("Could not request endpoint permission", e)
+    }
 }
 
 export function Onboarding({ onComplete }: OnboardingProps) {
     const [selected, setSelected] = useState<AIPreference>(null)
+    const [remoteModel, setRemoteModel] = useState<RemoteModelConfig>(DEFAULT_REMOTE_MODEL)
 
     const handleSelect = (pref: AIPreference) => {
         setSelected(pref)
     }
 
-    const handleConfirm = () => {
-        if (selected) {
+    const handleConfirm = async () => {
+        if (selected === "fast") {
+            await requestEndpointPermission(remoteModel.baseUrl)
+            onComplete(selected, remoteModel)
+        } else if (selected) {
             onComplete(selected)
         }
     }
 
+    const isRemoteModelValid = (() => {
+        try {
+            new URL(remoteModel.baseUrl)
+            return !!remoteModel.model.trim()
+        } catch (e) {
+            return false
+        }
+    })()
+
+    const canConfirm = !!selected && (selected !== "fast" || isRemoteModelValid)
+
     return (
         <motion.div
             initial={{ opacity: 0, y: 10 }}
@@ -90,20 +118,56 @@ export function Onboarding({ onComplete }: OnboardingProps) {
                         {selected === "fast" && <div className="h-2 w-2 bg-amber-500 rounded-full animate-pulse" />}
                     </div>
                     <p className="mt-3 text-xs text-white/50 leading-relaxed">
-                        Powered by Lanner's remote cloud models. Zero setup required and instantly available.
+                        Powered by remote models through any OpenAI-compatible endpoint, including local servers like Ollama or llama.cpp.
                     </p>
                     <div className="mt-3 flex items-center gap-2 text-[10px] text-white/30 font-mono">
                         <Server size={10} />
                         <span>Internet required</span>
                     </div>
                 </motion.button>
+
+                {selected === "fast" && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: "auto" }}
+                        className="grid gap-2 p-3 rounded-2xl bg-white/5 border border-white/10"
+                    >
+                        <label className="grid gap-1 text-[10px] uppercase tracking-wider text-white/40">
+                            Base URL
+                            <input
+                                value={remoteModel.baseUrl}
+                                onChange={(e) => setRemoteModel({ ...remoteModel, baseUrl: e.target.value })}
+                                placeholder="http://localhost:11434/v1"
+                                className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white normal-case tracking-normal font-mono focus:outline-none focus:border-amber-500/50"
+                            />
+                        </label>
+                        <label className="grid gap-1 text-[10px] uppercase tracking-wider text-white/40">
+                            Model
+                            <input
+                                value={remoteModel.model}
+                                onChange={(e) => setRemoteModel({ ...remoteModel, model: e.target.value })}
+                                placeholder="llama3.2"
+                                className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white normal-case tracking-normal font-mono focus:outline-none focus:border-amber-500/50"
+                            />
+                        </label>
+                        <label className="grid gap-1 text-[10px] uppercase tracking-wider text-white/40">
+                            API Key (optional)
+                            <input
+                                type="password"
+                                value={remoteModel.apiKey || ""}
+                                onChange={(e) => setRemoteModel({ ...remoteModel, apiKey: e.target.value || undefined })}
+                                className="bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white normal-case tracking-normal font-mono focus:outline-none focus:border-amber-500/50"
+                            />
+                        </label>
+                    </motion.div>
+                )}
             </div>
 
             <div className="mt-auto">
                 <button
                     onClick={handleConfirm}
-                    disabled={!selected}
-                    className={`w-full py-3 px-4 rounded-xl font-medium text-sm flex items-center justify-center gap-2 transition-all duration-300 ${selected
+                    disabled={!canConfirm}
+                    className={`w-full py-3 px-4 rounded-xl font-medium text-sm flex items-center justify-center gap-2 transition-all duration-300 ${canConfirm
                         ? "bg-white text-black shadow-lg shadow-white/10 hover:scale-[1.02] active:scale-[0.98]"
                         : "bg-white/5 text-white/20 cursor-not-allowed"
                         }`}
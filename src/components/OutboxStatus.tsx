@@ -0,0 +1,76 @@
+import { AlertCircle, CloudOff, Loader2, RefreshCcw, X } from "lucide-react"
+import { useState } from "react"
+
+import { useStorage } from "../hooks/useStorage"
+import { discardQueuedEvent, outboxItem, retryOutbox } from "~lib/outbox"
+
+const formatRetry = (timestamp: number) => {
+  const seconds = Math.round((timestamp - Date.now()) / 1000)
+  if (seconds < 60) return "retrying soon"
+  return `next try in ${Math.round(seconds / 60)} min`
+}
+
+/** Events waiting in the background outbox, and ones that failed for good. */
+export function OutboxStatus() {
+  // The background script updates the outbox as it retries
+  const { value: items } = useStorage(outboxItem)
+  const [isRetrying, setIsRetrying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (items.length === 0) return null
+
+  const pending = items.filter(item => !item.failed)
+  const failed = items.filter(item => item.failed)
+
+  const handleRetry = async () => {
+    setIsRetrying(true)
+    setError(null)
+    try {
+      await retryOutbox()
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setIsRetrying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      {pending.length > 0 && (
+        <div className="flex items-center gap-3 px-3 py-1.5 rounded-xl bg-amber-500/10 border border-amber-500/20 text-xs">
+          <CloudOff size={12} className="text-amber-300 shrink-0" />
+          <span className="flex-1 text-amber-200/80 truncate">
+            {pending.length === 1 ? `"${pending[0].event.summary}" is` : `${pending.length} events are`} waiting to sync
+          </span>
+          <span className="text-white/30 whitespace-nowrap">
+            {formatRetry(Math.min(...pending.map(item => item.nextAttemptAt)))}
+          </span>
+          <button
+            onClick={handleRetry}
+            disabled={isRetrying}
+            className="flex items-center gap-1 text-white/50 hover:text-white transition-colors"
+          >
+            {isRetrying ? <Loader2 size={12} className="animate-spin" /> : <RefreshCcw size={12} />}
+            Retry
+          </button>
+        </div>
+      )}
+      {failed.map(item => (
+        <div key={item.id} className="flex items-start gap-3 px-3 py-1.5 rounded-xl bg-red-500/10 border border-red-500/20 text-xs">
+          <AlertCircle size={12} className="text-red-400 shrink-0 mt-0.5" />
+          <span className="flex-1 text-red-300/80">
+            Couldn't add "{item.event.summary}": {item.lastError || "Unknown error"}
+          </span>
+          <button
+            onClick={() => discardQueuedEvent(item.id)}
+            className="text-white/40 hover:text-white transition-colors"
+            title="Dismiss"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-[11px] text-red-400 px-1">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+import { motion } from "framer-motion"
+import { ArrowLeft, AtSign, Download, Loader2, Plus, Trash2, Users } from "lucide-react"
+import { useState } from "react"
+
+import { toHandle, type ContactAlias, type ContactGroup, type MentionShortcuts } from "~lib/contactGroups"
+
+const EMAIL_LIKE_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-white/30 placeholder:text-white/20"
+
+interface PeopleSettingsProps {
+  shortcuts: MentionShortcuts
+  isImporting: boolean
+  onSave: (custom: MentionShortcuts) => Promise<void>
+  onImport: () => Promise<string | null>
+  onClose: () => void
+}
+
+const splitEmails = (text: string) => text.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean)
+
+/** Settings for @group and @alias mentions. */
+export function PeopleSettings({ shortcuts, isImporting, onSave, onImport, onClose }: PeopleSettingsProps) {
+  const [groupName, setGroupName] = useState("")
+  const [groupMembers, setGroupMembers] = useState("")
+  const [aliasHandle, setAliasHandle] = useState("")
+  const [aliasEmail, setAliasEmail] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const customGroups = shortcuts.groups.filter(group => group.source === "custom")
+  const googleGroups = shortcuts.groups.filter(group => group.source === "google")
+  const taken = new Set([...shortcuts.groups, ...shortcuts.aliases].map(s => s.handle))
+
+  const save = async (groups: ContactGroup[], aliases: ContactAlias[]) => {
+    setError(null)
+    try {
+      await onSave({ groups, aliases })
+      return true
+    } catch (e: any) {
+      setError(e.message)
+      return false
+    }
+  }
+
+  const handleAddGroup = async () => {
+    const handle = toHandle(groupName)
+    const members = splitEmails(groupMembers)
+    const invalid = members.find(email => !EMAIL_LIKE_RE.test(email))
+    if (!handle) return setError("Give the group a name")
+    if (taken.has(handle) && !googleGroups.some(group => group.handle === handle)) return setError(`@${handle} is already taken`)
+    if (members.length === 0) return setError("Add at least one email")
+    if (invalid) return setError(`"${invalid}" isn't an email address`)
+
+    // A custom group with a Google group's handle replaces it
+    const group: ContactGroup = { handle, name: groupName.trim(), members, source: "custom" }
+    if (await save([...customGroups, group], shortcuts.aliases)) {
+      setGroupName("")
+      setGroupMembers("")
+    }
+  }
+
+  const handleAddAlias = async () => {
+    const handle = toHandle(aliasHandle.replace(/^@/, ""))
+    const email = aliasEmail.trim()
+    if (!handle) return setError("Give the alias a name")
+    if (taken.has(handle)) return setError(`@${handle} is already taken`)
+    if (!EMAIL_LIKE_RE.test(email)) return setError(`"${email}" isn't an email address`)
+
+    if (await save(customGroups, [...shortcuts.aliases, { handle, email }])) {
+      setAliasHandle("")
+      setAliasEmail("")
+    }
+  }
+
+  const handleImport = async () => {
+    setError(await onImport())
+  }
+
+  return (
+    <motion.div
+      key="people-settings"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="space-y-5 py-2"
+    >
+      <button onClick={onClose} className="flex items-center gap-1.5 text-xs text-white/50 hover:text-white transition-colors">
+        <ArrowLeft size={12} />
+        Back
+      </button>
+
+      <section className="space-y-2">
+        <h3 className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-white/30">
+          <Users size={10} />
+          Groups
+        </h3>
+        {customGroups.map(group => (
+          <div key={group.handle} className="flex items-start gap-2 px-3 py-2 rounded-xl bg-white/5 border border-white/5 text-xs">
+            <div className="flex-1 min-w-0">
+              <div className="text-white/90">@{group.handle}</div>
+              <div className="text-white/40 truncate">{group.members.join(", ")}</div>
+            </div>
+            <button
+              onClick={() => save(customGroups.filter(g => g.handle !== group.handle), shortcuts.aliases)}
+              className="p-1 rounded-md text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+              title="Delete group"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+        <div className="space-y-1.5">
+          <input className={inputClass} placeholder="Group name, e.g. Eng Team" value={groupName} onChange={e => setGroupName(e.target.value)} />
+          <textarea
+            className={`${inputClass} resize-none`}
+            rows={2}
+            placeholder="Emails, separated by commas"
+            value={groupMembers}
+            onChange={e => setGroupMembers(e.target.value)}
+          />
+          <button onClick={handleAddGroup} className="flex items-center gap-1 text-xs text-white/60 hover:text-white transition-colors">
+            <Plus size={12} />
+            Add group{groupName && ` @${toHandle(groupName)}`}
+          </button>
+        </div>
+      </section>
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-white/30">
+            <Users size={10} />
+            Google contact groups
+          </h3>
+          <button
+            onClick={handleImport}
+            disabled={isImporting}
+            className="flex items-center gap-1 text-xs text-white/50 hover:text-white transition-colors disabled:opacity-50"
+          >
+            {isImporting ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+            Import
+          </button>
+        </div>
+        {googleGroups.length === 0 ? (
+          <p className="text-xs text-white/30 px-1">No contact groups imported yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {googleGroups.map(group => (
+              <span key={group.handle} className="text-[11px] bg-white/5 text-white/60 px-2 py-0.5 rounded border border-white/10" title={group.members.join(", ")}>
+                @{group.handle} · {group.members.length}
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-white/30">
+          <AtSign size={10} />
+          Aliases
+        </h3>
+        {shortcuts.aliases.map(alias => (
+          <div key={alias.handle} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-white/5 border border-white/5 text-xs">
+            <span className="text-white/90">@{alias.handle}</span>
+            <span className="flex-1 min-w-0 text-white/40 truncate">{alias.email}</span>
+            <button
+              onClick={() => save(customGroups, shortcuts.aliases.filter(a => a.handle !== alias.handle))}
+              className="p-1 rounded-md text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+              title="Delete alias"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center gap-1.5">
+          <input className={`${inputClass} w-28 shrink-0`} placeholder="@mom" value={aliasHandle} onChange={e => setAliasHandle(e.target.value)} />
+          <input className={inputClass} placeholder="email@example.com" value={aliasEmail} onChange={e => setAliasEmail(e.target.value)} />
+          <button onClick={handleAddAlias} className="p-1.5 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors" title="Add alias">
+            <Plus size={12} />
+          </button>
+        </div>
+      </section>
+
+      {error && <p className="text-[11px] text-red-400 px-1">{error}</p>}
+    </motion.div>
+  )
+}
@@ -0,0 +1,65 @@
+import { History, Loader2, Undo2 } from "lucide-react"
+import { useState } from "react"
+
+import { useStorage } from "../hooks/useStorage"
+import { describeChange, recentChangesItem, undoChange } from "~lib/undo"
+
+// Only changes from the last day are offered for undo
+const RECENT_WINDOW = 24 * 60 * 60 * 1000
+const MAX_SHOWN = 5
+
+const formatAgo = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes} min ago`
+  return `${Math.round(minutes / 60)} h ago`
+}
+
+export function RecentChanges() {
+  // Stays in sync with undos from the toast or another view
+  const { value: changes } = useStorage(recentChangesItem)
+  const [undoingId, setUndoingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const visible = changes
+    .filter(change => !change.undone && Date.now() - change.timestamp < RECENT_WINDOW)
+    .slice(0, MAX_SHOWN)
+
+  if (visible.length === 0) return null
+
+  const handleUndo = async (id: string) => {
+    setUndoingId(id)
+    setError(null)
+    try {
+      await undoChange(id)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-white/30 px-1">
+        <History size={10} />
+        <span>Recently created</span>
+      </div>
+      {visible.map(change => (
+        <div key={change.id} className="flex items-center gap-3 px-3 py-1.5 rounded-xl bg-white/5 text-xs">
+          <span className="flex-1 text-white/70 truncate">{describeChange(change)}</span>
+          <span className="text-white/30 whitespace-nowrap">{formatAgo(change.timestamp)}</span>
+          <button
+            onClick={() => handleUndo(change.id)}
+            disabled={undoingId !== null}
+            className="flex items-center gap-1 text-white/50 hover:text-white transition-colors"
+          >
+            {undoingId === change.id ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />}
+            Undo
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-[11px] text-red-400 px-1">{error}</p>}
+    </div>
+  )
+}
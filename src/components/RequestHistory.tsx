@@ -0,0 +1,157 @@
+import { motion } from "framer-motion"
+import { ArrowLeft, ChevronDown, ChevronRight, ExternalLink, RotateCcw, Search, Trash2 } from "lucide-react"
+import { useState } from "react"
+
+import { clearHistory, historyItem, searchHistory, type HistoryEntry } from "~lib/history"
+import { useStorage } from "../hooks/useStorage"
+import { EventTimeBadge } from "./EventTimeBadge"
+
+const MAX_SHOWN = 30
+
+const INTENT_LABELS: Record<NonNullable<HistoryEntry["intent"]>, string> = {
+  create: "New",
+  update: "Edit",
+  delete: "Cancel",
+  schedule: "Find a time"
+}
+
+interface RequestHistoryProps {
+  // Plans the request again, relative to today
+  onRerun: (entry: HistoryEntry) => void
+  onClose: () => void
+}
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+
+// "2 created", "Failed", ...
+const describeOutcome = (entry: HistoryEntry) => {
+  if (entry.saved?.length) {
+    const verb = entry.intent === "update" ? "updated" : "created"
+    return `${entry.saved.length} ${verb}`
+  }
+  if (entry.intent === "delete" && entry.approved?.length) return "Cancelled"
+  if (entry.errors?.length) return "Failed"
+  return entry.planned ? "Not saved" : "Not planned"
+}
+
+/** Past requests, searchable, with what came of them. */
+export function RequestHistory({ onRerun, onClose }: RequestHistoryProps) {
+  const { value: entries, isLoaded } = useStorage(historyItem)
+  const [query, setQuery] = useState("")
+  // Entry whose details are open
+  const [openId, setOpenId] = useState<string | null>(null)
+
+  const matches = searchHistory(entries, query)
+  const shown = matches.slice(0, MAX_SHOWN)
+
+  return (
+    <motion.div
+      key="history"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="space-y-3 py-2"
+    >
+      <div className="flex items-center justify-between">
+        <button onClick={onClose} className="flex items-center gap-1.5 text-xs text-white/50 hover:text-white transition-colors">
+          <ArrowLeft size={12} />
+          Back
+        </button>
+        {entries.length > 0 && (
+          <button onClick={() => clearHistory()} className="flex items-center gap-1 text-xs text-white/40 hover:text-white transition-colors">
+            <Trash2 size={12} />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="relative">
+        <Search size={12} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-white/30" />
+        <input
+          className="w-full bg-white/5 border border-white/10 rounded-lg pl-7 pr-2 py-1.5 text-xs text-white focus:outline-none focus:border-white/30 placeholder:text-white/20"
+          placeholder="Search requests and events"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          autoFocus
+        />
+      </div>
+
+      {isLoaded && shown.length === 0 && (
+        <p className="text-xs text-white/30 px-1">{entries.length === 0 ? "No requests yet." : "Nothing matches."}</p>
+      )}
+
+      <div className="space-y-1.5 max-h-96 overflow-y-auto">
+        {shown.map(entry => {
+          const isOpen = openId === entry.id
+          const failed = !entry.saved?.length && !!entry.errors?.length
+          return (
+            <div key={entry.id} className="px-3 py-2 rounded-xl bg-white/5 border border-white/5 text-xs">
+              <div className="flex items-start gap-2">
+                <button
+                  onClick={() => setOpenId(isOpen ? null : entry.id)}
+                  className="mt-0.5 text-white/30 hover:text-white transition-colors"
+                  title={isOpen ? "Hide details" : "Show details"}
+                >
+                  {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className="text-white/90 break-words">{entry.input}</div>
+                  <div className="flex items-center gap-1.5 text-white/40">
+                    <span>{formatWhen(entry.timestamp)}</span>
+                    {entry.intent && <span>· {INTENT_LABELS[entry.intent]}</span>}
+                    <span className={failed ? "text-red-400" : undefined}>· {describeOutcome(entry)}</span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRerun(entry)}
+                  className="p-1 rounded-md text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                  title="Run again as of today"
+                >
+                  <RotateCcw size={12} />
+                </button>
+              </div>
+
+              {entry.saved?.map(saved => (
+                <a
+                  key={saved.id}
+                  href={saved.htmlLink}
+                  target="_blank"
+                  rel="noreferrer"
+                  className={`mt-1 ml-5 flex items-center gap-1.5 text-white/60 ${saved.htmlLink ? "hover:text-white" : "pointer-events-none"}`}
+                >
+                  <ExternalLink size={10} className="shrink-0" />
+                  <span className="truncate">{saved.summary}</span>
+                </a>
+              ))}
+
+              {isOpen && (
+                <div className="mt-2 ml-5 space-y-2">
+                  {entry.planned?.map((event, i) => (
+                    <div key={i} className="flex items-center justify-between gap-2 text-white/60">
+                      <span className="truncate">{event.summary}</span>
+                      <EventTimeBadge event={event} />
+                    </div>
+                  ))}
+                  {entry.errors?.map((error, i) => (
+                    <p key={i} className="text-red-400">{error}</p>
+                  ))}
+                  <div className="text-white/30">{entry.usedModel ? "Read by the AI model" : "Read by the offline parser"}</div>
+                  {entry.modelOutputs?.map((output, i) => (
+                    <pre key={i} className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded-lg bg-black/40 p-2 text-[10px] text-white/50">
+                      {output}
+                    </pre>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {matches.length > MAX_SHOWN && (
+        <p className="text-[11px] text-white/30 px-1">Showing the latest {MAX_SHOWN}; search to find older requests.</p>
+      )}
+    </motion.div>
+  )
+}
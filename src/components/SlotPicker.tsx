@@ -0,0 +1,48 @@
+import { Clock } from "lucide-react"
+
+import type { SchedulingPlan } from "~lib/scheduling"
+
+interface SlotPickerProps {
+  plan: SchedulingPlan
+  selectedIndex: number
+  onSelect: (index: number) => void
+}
+
+const formatDay = (date: Date) => date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+export function SlotPicker({ plan, selectedIndex, onSelect }: SlotPickerProps) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-white/30 px-1">
+        <Clock size={10} />
+        <span>Everyone is free at</span>
+      </div>
+      {plan.slots.map((slot, idx) => (
+        <button
+          key={slot.start.getTime()}
+          onClick={() => onSelect(idx)}
+          className={`w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl text-left transition-colors border ${idx === selectedIndex
+            ? "bg-white/10 border-white/20"
+            : "bg-white/5 border-white/5 hover:bg-white/10"
+            }`}
+        >
+          <span className="text-sm text-white/90">{formatDay(slot.start)}</span>
+          <span className="text-xs text-white/50 whitespace-nowrap">
+            {formatTime(slot.start)} – {formatTime(slot.end)}
+          </span>
+        </button>
+      ))}
+      {plan.unknownAvailability.length > 0 && (
+        <p className="text-[11px] text-amber-300/70 px-1">
+          Couldn't see availability for {plan.unknownAvailability.join(", ")}.
+        </p>
+      )}
+      {plan.unresolved.length > 0 && (
+        <p className="text-[11px] text-amber-300/70 px-1">
+          No contact found for {plan.unresolved.map((name) => `@${name}`).join(", ")}. Pick them from the @ list to include them.
+        </p>
+      )}
+    </div>
+  )
+}
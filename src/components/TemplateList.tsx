@@ -0,0 +1,95 @@
+import { motion } from "framer-motion"
+import { LayoutTemplate, Video } from "lucide-react"
+import { useEffect, useState } from "react"
+import { EVENT_COLORS, matchingTemplates, templateTitle, type EventTemplate } from "~lib/templates"
+
+interface TemplateListProps {
+  templates: EventTemplate[]
+  query: string
+  onSelect: (template: EventTemplate) => void
+  onClose: () => void
+  position: { top: number; left: number }
+}
+
+/** Templates offered after typing "/" in the composer. */
+export function TemplateList({ templates, query, onSelect, onClose, position }: TemplateListProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  const filtered = matchingTemplates(templates, query)
+
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [templates, query])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (filtered.length === 0) return
+
+      switch (e.key) {
+        case "ArrowDown":
+          e.preventDefault()
+          setSelectedIndex(i => (i + 1) % filtered.length)
+          break
+        case "ArrowUp":
+          e.preventDefault()
+          setSelectedIndex(i => (i - 1 + filtered.length) % filtered.length)
+          break
+        case "Enter":
+        case "Tab":
+          e.preventDefault()
+          onSelect(filtered[selectedIndex])
+          break
+        case "Escape":
+          e.preventDefault()
+          onClose()
+          break
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [filtered, selectedIndex, onSelect, onClose])
+
+  if (filtered.length === 0) return null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.95 }}
+      style={{
+        top: position.top,
+        left: position.left,
+      }}
+      className="absolute z-50 w-64 bg-[#1a1a1a] border border-white/10 rounded-xl shadow-2xl overflow-hidden flex flex-col"
+    >
+      <div className="px-3 py-2 text-[10px] font-medium text-white/30 uppercase tracking-wider border-b border-white/5">
+        Templates
+      </div>
+      <div className="max-h-64 overflow-y-auto py-1">
+        {filtered.map((template, i) => (
+          <button
+            key={template.id}
+            onClick={() => onSelect(template)}
+            className={`w-full flex items-center gap-3 px-3 py-2 text-left transition-colors ${i === selectedIndex ? "bg-white/10" : "bg-white/5 hover:bg-white/20"
+              }`}
+          >
+            <div
+              className="w-6 h-6 rounded-full bg-white/10 flex items-center justify-center text-white/60"
+              style={template.colorId ? { backgroundColor: `${EVENT_COLORS[template.colorId]?.hex}33` } : undefined}
+            >
+              <LayoutTemplate size={12} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-white truncate">/{template.keyword}</div>
+              <div className="flex items-center gap-1 text-xs text-white/40 truncate">
+                {[templateTitle(template), template.durationMinutes && `${template.durationMinutes} min`].filter(Boolean).join(" · ")}
+                {template.addMeet && <Video size={10} className="shrink-0" />}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,207 @@
+import { Pencil, Plus, Trash2, Video } from "lucide-react"
+import { useState } from "react"
+
+import { EVENT_COLORS, type EventTemplate } from "~lib/templates"
+
+const EMAIL_LIKE_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-white/30 placeholder:text-white/20 [color-scheme:dark]"
+
+interface TemplateSettingsProps {
+  templates: EventTemplate[]
+  onSave: (templates: EventTemplate[]) => Promise<void>
+}
+
+// The form keeps every field as typed
+interface TemplateForm {
+  keyword: string
+  title: string
+  durationMinutes: string
+  location: string
+  description: string
+  attendees: string
+  colorId: string
+  addMeet: boolean
+}
+
+const EMPTY_FORM: TemplateForm = {
+  keyword: "",
+  title: "",
+  durationMinutes: "",
+  location: "",
+  description: "",
+  attendees: "",
+  colorId: "",
+  addMeet: false
+}
+
+const splitEmails = (text: string) => text.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean)
+
+const toForm = (template: EventTemplate): TemplateForm => ({
+  keyword: template.keyword,
+  title: template.title || "",
+  durationMinutes: template.durationMinutes ? String(template.durationMinutes) : "",
+  location: template.location || "",
+  description: template.description || "",
+  attendees: (template.attendees || []).join(", "),
+  colorId: template.colorId || "",
+  addMeet: !!template.addMeet
+})
+
+/** Event templates, triggered by a keyword or "/keyword" in a request. */
+export function TemplateSettings({ templates, onSave }: TemplateSettingsProps) {
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM)
+  // Template being edited; null while adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<TemplateForm>) => {
+    setForm({ ...form, ...changes })
+    setError(null)
+  }
+
+  const reset = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+    setError(null)
+  }
+
+  const save = async (next: EventTemplate[]) => {
+    setError(null)
+    try {
+      await onSave(next)
+      return true
+    } catch (e: any) {
+      setError(e.message)
+      return false
+    }
+  }
+
+  const handleSubmit = async () => {
+    const keyword = form.keyword.trim().replace(/^\//, "").toLowerCase()
+    const duration = form.durationMinutes.trim() ? Number(form.durationMinutes) : undefined
+    const attendees = splitEmails(form.attendees)
+    const invalid = attendees.find(email => !EMAIL_LIKE_RE.test(email))
+    if (!keyword) return setError("Give the template a keyword")
+    if (/\s/.test(keyword)) return setError("Keywords can't contain spaces")
+    if (templates.some(t => t.keyword === keyword && t.id !== editingId)) return setError(`"${keyword}" is already a template`)
+    if (duration !== undefined && !(Number.isInteger(duration) && duration >= 5 && duration <= 24 * 60)) {
+      return setError("Length must be between 5 minutes and 24 hours")
+    }
+    if (invalid) return setError(`"${invalid}" isn't an email address`)
+
+    const template: EventTemplate = {
+      id: editingId || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      keyword,
+      title: form.title.trim() || undefined,
+      durationMinutes: duration,
+      location: form.location.trim() || undefined,
+      description: form.description.trim() || undefined,
+      attendees: attendees.length ? attendees : undefined,
+      colorId: form.colorId || undefined,
+      addMeet: form.addMeet || undefined
+    }
+    const next = editingId
+      ? templates.map(t => (t.id === editingId ? template : t))
+      : [...templates, template]
+    if (await save(next)) reset()
+  }
+
+  return (
+    <div className="space-y-3">
+      {templates.map(template => (
+        <div key={template.id} className="flex items-center gap-3 px-4 py-3 rounded-xl bg-white/5 border border-white/5">
+          {template.colorId && (
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: EVENT_COLORS[template.colorId]?.hex }} />
+          )}
+          <div className="flex-1 min-w-0">
+            <div className="text-sm text-white/90">
+              /{template.keyword}
+              {template.title && <span className="text-white/40"> · {template.title}</span>}
+            </div>
+            <div className="flex items-center gap-1.5 text-xs text-white/40 truncate">
+              {[
+                template.durationMinutes && `${template.durationMinutes} min`,
+                template.location,
+                template.attendees?.length && `${template.attendees.length} ${template.attendees.length === 1 ? "person" : "people"}`
+              ].filter(Boolean).join(" · ")}
+              {template.addMeet && <Video size={10} className="shrink-0" />}
+            </div>
+          </div>
+          <button
+            onClick={() => { setForm(toForm(template)); setEditingId(template.id); setError(null) }}
+            className="p-1 rounded-md text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+            title="Edit template"
+          >
+            <Pencil size={12} />
+          </button>
+          <button
+            onClick={() => save(templates.filter(t => t.id !== template.id))}
+            className="p-1 rounded-md text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+            title="Delete template"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ))}
+
+      <div className="space-y-2 px-4 py-3 rounded-xl bg-white/5 border border-white/5">
+        <div className="flex gap-2">
+          <input className={`${inputClass} w-32 shrink-0`} placeholder="Keyword, e.g. gym" value={form.keyword} onChange={e => update({ keyword: e.target.value })} />
+          <input className={inputClass} placeholder="Title for /keyword, e.g. Gym" value={form.title} onChange={e => update({ title: e.target.value })} />
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={5}
+            max={24 * 60}
+            step={5}
+            className={`${inputClass} w-32 shrink-0`}
+            placeholder="Length (min)"
+            value={form.durationMinutes}
+            onChange={e => update({ durationMinutes: e.target.value })}
+          />
+          <input className={inputClass} placeholder="Location" value={form.location} onChange={e => update({ location: e.target.value })} />
+        </div>
+        <textarea
+          className={`${inputClass} resize-none`}
+          rows={2}
+          placeholder="Description"
+          value={form.description}
+          onChange={e => update({ description: e.target.value })}
+        />
+        <input className={inputClass} placeholder="Attendee emails, separated by commas" value={form.attendees} onChange={e => update({ attendees: e.target.value })} />
+        <div className="flex items-center gap-3">
+          <select className={`${inputClass} w-32 shrink-0`} value={form.colorId} onChange={e => update({ colorId: e.target.value })}>
+            <option value="">Calendar color</option>
+            {Object.entries(EVENT_COLORS).map(([id, color]) => (
+              <option key={id} value={id}>{color.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-white/70">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-indigo-500"
+              checked={form.addMeet}
+              onChange={e => update({ addMeet: e.target.checked })}
+            />
+            Add a Meet link
+          </label>
+        </div>
+        <div className="flex items-center justify-end gap-3 pt-1">
+          {editingId && (
+            <button onClick={reset} className="text-xs text-white/50 hover:text-white transition-colors">
+              Cancel
+            </button>
+          )}
+          <button onClick={handleSubmit} className="flex items-center gap-1 text-xs text-white/70 hover:text-white transition-colors">
+            <Plus size={12} />
+            {editingId ? "Update template" : "Add template"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400 px-1">{error}</p>}
+    </div>
+  )
+}
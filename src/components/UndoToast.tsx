@@ -0,0 +1,74 @@
+import { motion } from "framer-motion"
+import { Check, Loader2, Undo2, X } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+
+import { describeChange, undoChange, type RecentChange } from "~lib/undo"
+
+interface UndoToastProps {
+  change: RecentChange
+  onDismiss: () => void
+}
+
+// Long enough to notice a misread day after the overlay has closed
+const TOAST_DURATION = 10000
+
+export function UndoToast({ change, onDismiss }: UndoToastProps) {
+  const [isUndoing, setIsUndoing] = useState(false)
+  const [isUndone, setIsUndone] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Parents re-render often; don't restart the timer for a new callback
+  const onDismissRef = useRef(onDismiss)
+  onDismissRef.current = onDismiss
+
+  useEffect(() => {
+    // Stay up while an undo is running or failed
+    if (isUndoing || error) return
+    const timer = setTimeout(() => onDismissRef.current(), isUndone ? 1500 : TOAST_DURATION)
+    return () => clearTimeout(timer)
+  }, [isUndoing, isUndone, error])
+
+  const handleUndo = async () => {
+    setIsUndoing(true)
+    setError(null)
+    try {
+      await undoChange(change.id)
+      setIsUndone(true)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setIsUndoing(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      className="pointer-events-auto w-full max-w-sm bg-[#1a1a1a] border border-white/10 rounded-2xl shadow-2xl px-4 py-3 space-y-1"
+    >
+      <div className="flex items-center gap-3">
+        <span className="flex-1 text-sm text-white/80 truncate">
+          {isUndone ? "Undone" : describeChange(change)}
+        </span>
+        {isUndone ? (
+          <Check size={16} className="text-green-400" />
+        ) : (
+          <button
+            onClick={handleUndo}
+            disabled={isUndoing}
+            className="flex items-center gap-1.5 text-xs font-bold text-white hover:text-white/70 transition-colors"
+          >
+            {isUndoing ? <Loader2 size={14} className="animate-spin" /> : <Undo2 size={14} />}
+            Undo
+          </button>
+        )}
+        <button onClick={onDismiss} className="text-white/30 hover:text-white transition-colors">
+          <X size={14} />
+        </button>
+      </div>
+      {error && <p className="text-[11px] text-red-400">{error}</p>}
+    </motion.div>
+  )
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react"
+
+import {
+  accountsItem,
+  activeEmailItem,
+  getAccounts,
+  getActiveAccount,
+  removeAccount,
+  setActiveAccount,
+  type Account
+} from "~lib/accounts"
+import { linkAccount } from "~lib/googleApi"
+
+/**
+ * Linked Google accounts and the active one. Follows storage, so a switch
+ * in the popup shows up in open overlays too.
+ */
+export function useAccounts(enabled: boolean) {
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [activeAccount, setActive] = useState<Account | undefined>()
+  const [isLinking, setIsLinking] = useState(false)
+
+  const load = useCallback(async () => {
+    const [all, active] = await Promise.all([getAccounts(), getActiveAccount()])
+    setAccounts(all)
+    setActive(active)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    load()
+
+    const unwatchAccounts = accountsItem.watch(() => load())
+    const unwatchActive = activeEmailItem.watch(() => load())
+    return () => {
+      unwatchAccounts()
+      unwatchActive()
+    }
+  }, [enabled, load])
+
+  const switchAccount = useCallback(async (email: string) => {
+    await setActiveAccount(email)
+  }, [])
+
+  /** Asks Google for another account; resolves to an error message on failure. */
+  const addAccount = useCallback(async (): Promise<string | null> => {
+    setIsLinking(true)
+    try {
+      await linkAccount()
+      return null
+    } catch (e) {
+      console.error("Linking account failed", e)
+      return e instanceof Error ? e.message : String(e)
+    } finally {
+      setIsLinking(false)
+    }
+  }, [])
+
+  const unlinkAccount = useCallback(async (email: string) => {
+    await removeAccount(email)
+  }, [])
+
+  return {
+    accounts,
+    activeAccount,
+    isLinking,
+    switchAccount,
+    addAccount,
+    unlinkAccount
+  }
+}
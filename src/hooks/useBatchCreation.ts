@@ -0,0 +1,78 @@
+import { useCallback, useState } from "react"
+
+import { createEventsIndividually, type CreationStatus } from "~lib/batch"
+import type { CalendarEvent } from "~lib/calendar"
+
+/**
+ * Per-event include/exclude and creation status for the review step.
+ * Statuses are indexed like `events`; events that were already created
+ * or queued are skipped on later runs, so running again retries only the
+ * failures.
+ */
+export function useBatchCreation(events: CalendarEvent[]) {
+  const [excluded, setExcluded] = useState<number[]>([])
+  const [statuses, setStatuses] = useState<Record<number, CreationStatus>>({})
+
+  const toggleExcluded = useCallback((index: number) => {
+    setExcluded((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]
+    )
+  }, [])
+
+  const reset = useCallback(() => {
+    setExcluded([])
+    setStatuses({})
+  }, [])
+
+  const pending = events
+    .map((event, index) => ({ event, index }))
+    .filter(
+      ({ index }) =>
+        !excluded.includes(index) &&
+        statuses[index]?.state !== "created" &&
+        statuses[index]?.state !== "queued"
+    )
+
+  // Excluded failures no longer count
+  const failedCount = pending.filter(
+    ({ index }) => statuses[index]?.state === "failed"
+  ).length
+  const createdCount = Object.values(statuses).filter(
+    (status) => status.state === "created"
+  ).length
+  const queuedCount = Object.values(statuses).filter(
+    (status) => status.state === "queued"
+  ).length
+
+  /** Creates included events not created yet and reports how it went. */
+  const createPending = async () => {
+    const results: Record<number, CreationStatus> = {}
+    await createEventsIndividually(pending, (index, status) => {
+      results[index] = status
+      setStatuses((prev) => ({ ...prev, [index]: status }))
+    })
+    const settled = Object.values(results)
+    return {
+      // Queued events will be created by the outbox; nothing left to retry
+      allDone: settled.every((status) => status.state !== "failed"),
+      created: settled
+        .filter((status) => status.state === "created")
+        .map((status) => status.created),
+      errors: settled
+        .filter((status) => status.state === "failed")
+        .map((status) => status.error)
+    }
+  }
+
+  return {
+    excluded,
+    statuses,
+    toggleExcluded,
+    reset,
+    pendingCount: pending.length,
+    failedCount,
+    createdCount,
+    queuedCount,
+    createPending
+  }
+}
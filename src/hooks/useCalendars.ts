@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { canWrite, listCalendars, type CalendarListEntry } from "~lib/calendar"
+import { getUserConfig, saveUserConfig } from "~lib/storage"
+
+/**
+ * The calendars `accountId` can add events to, and the one new events go
+ * to by default. Loaded once `enabled` (signed in); defaults are saved to
+ * the user config per account.
+ */
+export function useCalendars(enabled: boolean, accountId?: string) {
+  const [calendars, setCalendars] = useState<CalendarListEntry[]>([])
+  const [defaultCalendarId, setDefaultCalendarId] = useState("primary")
+
+  useEffect(() => {
+    setCalendars([])
+    setDefaultCalendarId("primary")
+    if (!enabled) return
+
+    let cancelled = false
+    Promise.all([listCalendars(accountId), getUserConfig()])
+      .then(([items, config]) => {
+        if (cancelled) return
+        const writable = items.filter(canWrite)
+        setCalendars(writable)
+        // A saved default the user lost access to falls back to primary
+        const saved = config.defaultCalendarIds?.[accountId || ""]
+        if (writable.some((item) => item.id === saved)) {
+          setDefaultCalendarId(saved)
+        }
+      })
+      .catch((e) => console.warn("Couldn't load calendars", e))
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, accountId])
+
+  const changeDefault = useCallback(
+    async (calendarId: string) => {
+      setDefaultCalendarId(calendarId)
+      const config = await getUserConfig()
+      await saveUserConfig({
+        defaultCalendarIds: {
+          ...config.defaultCalendarIds,
+          [accountId || ""]: calendarId
+        }
+      })
+    },
+    [accountId]
+  )
+
+  return { calendars, defaultCalendarId, changeDefault }
+}
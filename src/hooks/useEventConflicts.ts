@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+
+import type { CalendarEvent } from "~lib/calendar"
+import {
+  findConflicts,
+  findNextFreeSlot,
+  loadCalendarSnapshot,
+  type CalendarSnapshot
+} from "~lib/conflicts"
+
+const EMPTY_SNAPSHOT: CalendarSnapshot = { busy: [], existing: [] }
+
+/**
+ * Checks proposed events against the user's calendar while they are being
+ * reviewed. Availability is reloaded whenever the events' times change.
+ */
+export function useEventConflicts(events: CalendarEvent[], enabled: boolean) {
+  const [snapshot, setSnapshot] = useState<CalendarSnapshot>(EMPTY_SNAPSHOT)
+  const [isChecking, setIsChecking] = useState(false)
+
+  const timesKey = events
+    .map(
+      (event) =>
+        `${event.start.dateTime || event.start.date}/${event.end.dateTime || event.end.date}`
+    )
+    .join("|")
+
+  useEffect(() => {
+    if (!enabled || events.length === 0) {
+      setSnapshot(EMPTY_SNAPSHOT)
+      // A check cancelled by leaving the review never clears it itself
+      setIsChecking(false)
+      return
+    }
+
+    let cancelled = false
+    setIsChecking(true)
+    loadCalendarSnapshot(events)
+      .then((data) => {
+        if (!cancelled) setSnapshot(data)
+      })
+      .catch((e) => {
+        // Conflict checks are advisory; creation still works without them
+        console.warn("Failed to check availability", e)
+        if (!cancelled) setSnapshot(EMPTY_SNAPSHOT)
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, timesKey])
+
+  const conflicts = useMemo(
+    () => findConflicts(events, snapshot),
+    [events, snapshot]
+  )
+
+  const findFreeSlot = useCallback(
+    (index: number) =>
+      findNextFreeSlot(
+        events[index],
+        snapshot,
+        events.filter((_, i) => i !== index)
+      ),
+    [events, snapshot]
+  )
+
+  return { conflicts, isChecking, findFreeSlot }
+}
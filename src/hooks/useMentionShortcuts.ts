@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react"
+
+import {
+  getGoogleGroups,
+  getMentionShortcuts,
+  mentionShortcutsItem,
+  saveCustomShortcuts,
+  type MentionShortcuts
+} from "~lib/contactGroups"
+
+const EMPTY: MentionShortcuts = { groups: [], aliases: [] }
+
+/**
+ * Groups and aliases for @mentions, including the Google contact groups of
+ * `accountId`. Follows storage, so edits in settings reach open overlays.
+ */
+export function useMentionShortcuts(enabled: boolean, accountId?: string) {
+  const [shortcuts, setShortcuts] = useState<MentionShortcuts>(EMPTY)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const load = useCallback(async () => {
+    setShortcuts(await getMentionShortcuts())
+  }, [])
+
+  useEffect(() => {
+    setShortcuts(EMPTY)
+    if (!enabled) return
+    load().catch((e) => console.warn("Couldn't load groups and aliases", e))
+    return mentionShortcutsItem.watch(() => load())
+  }, [enabled, accountId, load])
+
+  /** Saves the user's own groups and aliases; Google groups are left out. */
+  const saveCustom = useCallback(async (custom: MentionShortcuts) => {
+    await saveCustomShortcuts({
+      groups: custom.groups.filter((group) => group.source === "custom"),
+      aliases: custom.aliases
+    })
+  }, [])
+
+  /** Re-imports Google contact groups; resolves to an error message on failure. */
+  const importGoogleGroups = useCallback(async (): Promise<string | null> => {
+    setIsImporting(true)
+    try {
+      await getGoogleGroups(true)
+      await load()
+      return null
+    } catch (e) {
+      console.error("Importing contact groups failed", e)
+      return e instanceof Error ? e.message : String(e)
+    } finally {
+      setIsImporting(false)
+    }
+  }, [load])
+
+  return { shortcuts, isImporting, saveCustom, importGoogleGroups }
+}
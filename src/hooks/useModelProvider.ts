@@ -0,0 +1,51 @@
+import { usePromptAPI } from "@ahnopologetic/use-prompt-api/react"
+import { useMemo } from "react"
+
+import { AIModelAvailability, normalizeAvailability } from "~lib/ai"
+import { buildSystemPrompt } from "~lib/extraction"
+import {
+  createOnDeviceProvider,
+  createRemoteProvider,
+  providerKindFor,
+  type ModelProvider
+} from "~lib/providers"
+import { DEFAULT_REMOTE_MODEL } from "~lib/storage"
+
+import { useUserConfig } from "./useStorage"
+
+/**
+ * Picks the model backend from `UserConfig.aiPreference`: Chrome's on-device
+ * Prompt API ("safe") or an OpenAI-compatible endpoint ("fast"). The system
+ * prompt follows the user's event defaults, and both follow config saves
+ * from any view.
+ */
+export function useModelProvider() {
+  const { value: config, isLoaded } = useUserConfig()
+  const systemPrompt = buildSystemPrompt(config)
+
+  const onDevice = usePromptAPI({ systemPrompt })
+
+  const kind = providerKindFor(config.aiPreference)
+
+  const provider: ModelProvider = useMemo(() => {
+    if (kind === "remote") {
+      return createRemoteProvider(
+        config.remoteModel || DEFAULT_REMOTE_MODEL,
+        systemPrompt
+      )
+    }
+    return createOnDeviceProvider(onDevice.prompt)
+  }, [kind, config, systemPrompt, onDevice.prompt])
+
+  const isRemote = kind === "remote"
+
+  return {
+    provider,
+    isRemote,
+    prompt: provider.prompt,
+    ready: isRemote ? isLoaded : onDevice.ready,
+    availability: isRemote
+      ? AIModelAvailability.AVAILABLE
+      : normalizeAvailability(onDevice.availability)
+  }
+}
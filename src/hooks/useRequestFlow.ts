@@ -0,0 +1,287 @@
+import { useState } from "react"
+
+import { chooseAttendee } from "~lib/attendees"
+import { deleteEvent, updateEvent, type CalendarEvent } from "~lib/calendar"
+import { composeRequest, type ContactMention } from "~lib/composer"
+import type { Contact } from "~lib/contacts"
+import { ExtractionError, type PromptFn } from "~lib/extraction"
+import {
+  buildEventPatch,
+  planRequest,
+  type CalendarChoice,
+  type PlannedChange
+} from "~lib/intent"
+import { applySlot, type SchedulingPlan } from "~lib/scheduling"
+import { getUserConfig } from "~lib/storage"
+import { recordCreated, recordUpdated, type RecentChange } from "~lib/undo"
+
+import { useBatchCreation } from "./useBatchCreation"
+import { useEventConflicts } from "./useEventConflicts"
+import { useRequestHistory } from "./useRequestHistory"
+
+export type RequestStatus =
+  | "idle"
+  | "generating"
+  | "review"
+  | "creating"
+  | "success"
+  | "error"
+
+interface RequestFlowOptions {
+  // null plans with the rule-based parser
+  prompt: PromptFn | null
+  // False while neither the model nor the offline parser can be used
+  canPlan: boolean
+  choice: CalendarChoice
+  // Called once the success message has been shown
+  onFinished?: () => void
+}
+
+/**
+ * A request from planning to the calendar, shared by the popup and the
+ * overlay: the plan under review, edits made to it, and saving it with
+ * history and undo kept up to date.
+ */
+export function useRequestFlow({
+  prompt,
+  canPlan,
+  choice,
+  onFinished
+}: RequestFlowOptions) {
+  const [status, setStatus] = useState<RequestStatus>("idle")
+  const [errorMessage, setErrorMessage] = useState("")
+  const [events, setEvents] = useState<CalendarEvent[]>([])
+  // Set instead of events when the request edits or cancels an existing event
+  const [plannedChange, setPlannedChange] = useState<PlannedChange | null>(null)
+  const [selectedCandidateId, setSelectedCandidateId] = useState("")
+  // Set when the request asked us to find a time; events holds the event at the picked slot
+  const [schedulePlan, setSchedulePlan] = useState<SchedulingPlan | null>(null)
+  const [selectedSlotIndex, setSelectedSlotIndex] = useState(0)
+  // Index of the review card being edited in place
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  // Latest change, offered for undo in a toast that outlives the review
+  const [lastChange, setLastChange] = useState<RecentChange | null>(null)
+  const history = useRequestHistory()
+
+  // Overlaps with the user's calendar, checked while reviewing new events
+  const conflicts = useEventConflicts(
+    events,
+    status === "review" && !plannedChange
+  )
+  // Per-event include/exclude and creation results
+  const batch = useBatchCreation(events)
+
+  const clearPlan = () => {
+    setEvents([])
+    setPlannedChange(null)
+    setSchedulePlan(null)
+    setEditingIndex(null)
+    batch.reset()
+  }
+
+  /** Drops the plan under review and goes back to the composer. */
+  const reset = () => {
+    clearPlan()
+    setStatus("idle")
+  }
+
+  const fail = (message: string) => {
+    setStatus("error")
+    setErrorMessage(message)
+    history.recordError(message)
+  }
+
+  /**
+   * Plans `text`, with contacts picked as chips. Also used for past
+   * requests run again, which are planned as of now.
+   */
+  const generate = async (text: string, chips: ContactMention[] = []) => {
+    if (!text.trim() || !canPlan) return
+    clearPlan()
+    setStatus("generating")
+    setErrorMessage("")
+
+    try {
+      const request = composeRequest(text, chips)
+      // Keeps the model's responses with the request in the history
+      const recordedPrompt = await history.begin(text, chips, prompt)
+      const plan = await planRequest(
+        recordedPrompt,
+        request.text,
+        new Date(),
+        choice,
+        request.contacts
+      )
+      history.recordPlan(plan)
+
+      if (plan.change) {
+        if (plan.change.candidates.length === 0) {
+          fail(
+            "Couldn't find a matching event in the next two weeks. Try including its title or day."
+          )
+          return
+        }
+        setPlannedChange(plan.change)
+        setSelectedCandidateId(plan.change.candidates[0].id)
+        setStatus("review")
+        return
+      }
+
+      if (plan.schedule) {
+        if (plan.schedule.slots.length === 0) {
+          fail(
+            'Couldn\'t find a time when everyone is free. Try a wider window, like "next week".'
+          )
+          return
+        }
+        setSchedulePlan(plan.schedule)
+        setSelectedSlotIndex(0)
+        setEvents([applySlot(plan.schedule.event, plan.schedule.slots[0])])
+        setStatus("review")
+        return
+      }
+
+      if (plan.events.length === 0) {
+        fail(
+          'Couldn\'t find a date or time. Try something like "Standup tomorrow 9:30 for 15 min".'
+        )
+        return
+      }
+
+      setEvents(plan.events)
+      setStatus("review")
+    } catch (e) {
+      console.error(e)
+      setStatus("error")
+      setErrorMessage(
+        e instanceof ExtractionError
+          ? `${e.message}. Please try rephrasing.`
+          : "Failed to parse event. Please try again."
+      )
+      // The underlying error, for looking into misread requests
+      history.recordError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const approve = async () => {
+    if (batch.pendingCount === 0 && !plannedChange) return
+    setStatus("creating")
+    try {
+      if (plannedChange) {
+        const selected = plannedChange.candidates.find(
+          (evt) => evt.id === selectedCandidateId
+        )
+        const target = {
+          calendarId: selected.calendarId,
+          accountId: selected.accountId
+        }
+        if (plannedChange.intent === "delete") {
+          await deleteEvent(selected.id, target)
+          history.recordResult({ approved: [selected] })
+        } else {
+          const { titlePrefix } = await getUserConfig()
+          const patch = buildEventPatch(
+            selected,
+            plannedChange.changes,
+            titlePrefix
+          )
+          await updateEvent(selected.id, patch, target)
+          history.recordResult({
+            approved: [{ ...selected, ...patch }],
+            saved: [{ ...selected, ...patch }]
+          })
+          setLastChange(await recordUpdated(selected, patch))
+        }
+      } else {
+        // Events are created independently; stay in review when any fail
+        const { allDone, created, errors } = await batch.createPending()
+        history.recordResult({
+          approved: events.filter((_, i) => !batch.excluded.includes(i)),
+          saved: created,
+          errors
+        })
+        const change = await recordCreated(created)
+        if (change) setLastChange(change)
+        if (!allDone) {
+          setStatus("review")
+          return
+        }
+      }
+
+      setStatus("success")
+      setTimeout(() => {
+        reset()
+        onFinished?.()
+      }, 2000)
+    } catch (e: any) {
+      fail(e.message)
+    }
+  }
+
+  // Changes the event under review; edits to a scheduled event are kept
+  // when another slot is picked afterwards
+  const updateReviewed = (
+    index: number,
+    change: (event: CalendarEvent) => CalendarEvent
+  ) => {
+    setEvents((prev) => prev.map((evt, i) => (i === index ? change(evt) : evt)))
+    if (schedulePlan) {
+      setSchedulePlan({ ...schedulePlan, event: change(schedulePlan.event) })
+    }
+  }
+
+  const selectSlot = (index: number) => {
+    setSelectedSlotIndex(index)
+    setEvents([applySlot(schedulePlan.event, schedulePlan.slots[index])])
+  }
+
+  const saveEdit = (index: number, edited: CalendarEvent) => {
+    updateReviewed(index, () => edited)
+    setEditingIndex(null)
+  }
+
+  const chooseEventAttendee = (
+    index: number,
+    name: string,
+    contact?: Contact
+  ) => updateReviewed(index, (evt) => chooseAttendee(evt, name, contact))
+
+  const changeCalendar = (index: number, calendarId: string) =>
+    updateReviewed(index, (evt) => ({ ...evt, calendarId }))
+
+  const shiftToFreeSlot = (index: number) => {
+    const shifted = conflicts.findFreeSlot(index)
+    if (shifted) {
+      setEvents((prev) => prev.map((evt, i) => (i === index ? shifted : evt)))
+    }
+  }
+
+  return {
+    status,
+    errorMessage,
+    events,
+    plannedChange,
+    selectedCandidateId,
+    selectCandidate: setSelectedCandidateId,
+    schedulePlan,
+    selectedSlotIndex,
+    editingIndex,
+    setEditingIndex,
+    lastChange,
+    dismissChange: () => setLastChange(null),
+    conflicts: conflicts.conflicts,
+    isCheckingConflicts: conflicts.isChecking,
+    findFreeSlot: conflicts.findFreeSlot,
+    batch,
+    generate,
+    approve,
+    reset,
+    selectSlot,
+    saveEdit,
+    chooseAttendee: chooseEventAttendee,
+    changeCalendar,
+    shiftToFreeSlot
+  }
+}
+
+export type RequestFlow = ReturnType<typeof useRequestFlow>
@@ -0,0 +1,112 @@
+import { useCallback, useRef } from "react"
+
+import type { CalendarEvent, ExistingEvent } from "~lib/calendar"
+import type { ContactMention } from "~lib/composer"
+import type { PromptFn } from "~lib/extraction"
+import {
+  plannedEvents,
+  recordingPrompt,
+  startHistoryEntry,
+  toSavedRef,
+  updateHistoryEntry,
+  type HistoryEntry
+} from "~lib/history"
+import type { RequestPlan } from "~lib/intent"
+
+/**
+ * Keeps the request being worked on in the history, from planning to the
+ * events it created. Recording never gets in the way of the request: a
+ * failed write is only logged.
+ */
+export function useRequestHistory() {
+  const entryId = useRef<string | null>(null)
+  // Model responses for the current request
+  const outputs = useRef<string[]>([])
+
+  const update = useCallback(
+    (change: (entry: HistoryEntry) => HistoryEntry) => {
+      const id = entryId.current
+      if (!id) return
+      updateHistoryEntry(id, change).catch((e) =>
+        console.warn("Couldn't update history", e)
+      )
+    },
+    []
+  )
+
+  const withOutputs = (entry: HistoryEntry): HistoryEntry =>
+    outputs.current.length
+      ? { ...entry, modelOutputs: [...outputs.current] }
+      : entry
+
+  /**
+   * Starts an entry for `input`. Returns `prompt` wrapped so the model's
+   * responses are kept with it.
+   */
+  const begin = useCallback(
+    async (
+      input: string,
+      mentions: ContactMention[],
+      prompt: PromptFn | null
+    ): Promise<PromptFn | null> => {
+      entryId.current = null
+      outputs.current = []
+      try {
+        entryId.current = (
+          await startHistoryEntry(input, mentions, !!prompt)
+        ).id
+      } catch (e) {
+        console.warn("Couldn't add request to history", e)
+      }
+      return prompt && recordingPrompt(prompt, outputs.current)
+    },
+    []
+  )
+
+  const recordPlan = useCallback(
+    (plan: RequestPlan) =>
+      update((entry) =>
+        withOutputs({
+          ...entry,
+          intent: plan.intent,
+          planned: plannedEvents(plan)
+        })
+      ),
+    [update]
+  )
+
+  const recordError = useCallback(
+    (message: string) =>
+      update((entry) =>
+        withOutputs({ ...entry, errors: [...(entry.errors || []), message] })
+      ),
+    [update]
+  )
+
+  /**
+   * Records what the user approved and what was saved. Runs again after a
+   * retry, so saved events and errors add up.
+   */
+  const recordResult = useCallback(
+    ({
+      approved,
+      saved = [],
+      errors = []
+    }: {
+      approved: CalendarEvent[]
+      saved?: ExistingEvent[]
+      errors?: string[]
+    }) =>
+      update((entry) => ({
+        ...entry,
+        approved,
+        saved: [...(entry.saved || []), ...saved.map(toSavedRef)],
+        errors: errors.length
+          ? [...(entry.errors || []), ...errors]
+          : entry.errors
+      })),
+    [update]
+  )
+
+  return { begin, recordPlan, recordError, recordResult }
+}
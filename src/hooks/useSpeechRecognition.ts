@@ -1,16 +1,18 @@
 import { useState, useCallback, useEffect } from "react"
 
+import { useUserConfig } from "./useStorage"
+
 export function useSpeechRecognition() {
     const [isListening, setIsListening] = useState(false)
     const [transcript, setTranscript] = useState("")
     const [recognition, setRecognition] = useState<any>(null)
+    const { value: config } = useUserConfig()
 
     useEffect(() => {
         if (typeof window !== "undefined" && (window as any).webkitSpeechRecognition) {
             const r = new (window as any).webkitSpeechRecognition()
             r.continuous = true
             r.interimResults = true
-            r.lang = "en-US"
 
             r.onresult = (event: any) => {
                 let final = ""
@@ -32,6 +34,11 @@ export function useSpeechRecognition() {
         }
     }, [])
 
+    // Language from the options page, followed while open
+    useEffect(() => {
+        if (recognition) recognition.lang = config.speechLanguage
+    }, [recognition, config.speechLanguage])
+
     const startListening = useCallback(() => {
         if (recognition) {
             try {
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { userConfigItem, type StorageItem } from "~lib/storage"
+
+/**
+ * The current value of a storage item. Follows changes from every context,
+ * so a save in the options page reaches open popups and overlays.
+ * `value` is the item's fallback until the first read has finished.
+ */
+export function useStorage<T>(item: StorageItem<T>) {
+  const [value, setValue] = useState<T>(item.fallback)
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    item
+      .get()
+      .then((stored) => {
+        if (!active) return
+        setValue(stored)
+        setIsLoaded(true)
+      })
+      .catch((e) => console.warn(`Couldn't read "${item.key}"`, e))
+
+    const unwatch = item.watch((next) => {
+      setValue(next)
+      setIsLoaded(true)
+    })
+    return () => {
+      active = false
+      unwatch()
+    }
+  }, [item])
+
+  const set = useCallback((next: T) => item.set(next), [item])
+  const update = useCallback(
+    (change: (current: T) => T) => item.update(change),
+    [item]
+  )
+
+  return { value, set, update, isLoaded }
+}
+
+export const useUserConfig = () => useStorage(userConfigItem)
@@ -0,0 +1,170 @@
+import { z } from "zod"
+
+import {
+  defineAccountItem,
+  defineItem,
+  removeAccountItems,
+  StorageKeys
+} from "./storage"
+
+// Google accounts Lanner can act as. The account Chrome is signed in with
+// gets its tokens from chrome.identity.getAuthToken; further accounts are
+// linked through the OAuth web flow, which works for any Google account.
+
+export type AccountSource = "chrome" | "linked"
+
+export interface Account {
+  email: string
+  name?: string
+  photoUrl?: string
+  source: AccountSource
+}
+
+const accountSchema = z.looseObject({
+  email: z.string(),
+  name: z.string().optional(),
+  photoUrl: z.string().optional(),
+  source: z.enum(["chrome", "linked"])
+})
+
+export const accountsItem = defineItem(
+  StorageKeys.ACCOUNTS,
+  z.array(accountSchema),
+  [] as Account[]
+)
+export const activeEmailItem = defineItem<string | undefined>(
+  StorageKeys.ACTIVE_ACCOUNT,
+  z.string().optional(),
+  undefined
+)
+const tokenCacheItem = defineAccountItem<
+  { token: string; timestamp: number } | undefined
+>(
+  StorageKeys.AUTH_TOKEN,
+  z.object({ token: z.string(), timestamp: z.number() }).optional(),
+  undefined
+)
+
+// Tokens are valid for ~60 mins; stay on the safe side
+const TOKEN_MAX_AGE = 50 * 60 * 1000
+
+const AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth"
+
+// The web flow needs a "Web application" client; Chrome's own client only
+// works with chrome.identity.getAuthToken. Set at build time, see the README.
+const WEB_CLIENT_ID = process.env.PLASMO_PUBLIC_GOOGLE_WEB_CLIENT_ID
+
+/** False in builds without a web client, where no account can be linked. */
+export const canLinkAccounts = Boolean(WEB_CLIENT_ID)
+
+export const getAccounts = (): Promise<Account[]> => accountsItem.get()
+
+export const findAccount = async (email: string) =>
+  (await getAccounts()).find((account) => account.email === email)
+
+/**
+ * The account requests act as unless they name one: the one picked in the
+ * switcher, else Chrome's. Undefined until the first sign-in.
+ */
+export const getActiveAccount = async (): Promise<Account | undefined> => {
+  const [accounts, activeEmail] = await Promise.all([
+    getAccounts(),
+    activeEmailItem.get()
+  ])
+  return (
+    accounts.find((account) => account.email === activeEmail) ||
+    accounts.find((account) => account.source === "chrome") ||
+    accounts[0]
+  )
+}
+
+export const setActiveAccount = async (email: string) => {
+  await activeEmailItem.set(email)
+}
+
+/** The account named by `accountId`, or the active one when omitted. */
+export const resolveAccount = (accountId?: string) =>
+  accountId ? findAccount(accountId) : getActiveAccount()
+
+/** Adds `account`, or replaces the stored one with the same email. */
+export const saveAccount = async (account: Account) => {
+  await accountsItem.update((accounts) => {
+    const index = accounts.findIndex((item) => item.email === account.email)
+    return index === -1
+      ? [...accounts, account]
+      : accounts.map((item, i) => (i === index ? account : item))
+  })
+}
+
+/** Unlinks an account and drops everything cached for it. */
+export const removeAccount = async (email: string) => {
+  await accountsItem.update((accounts) =>
+    accounts.filter((item) => item.email !== email)
+  )
+  await removeAccountItems(email)
+
+  if ((await activeEmailItem.get()) === email) {
+    await activeEmailItem.remove()
+  }
+}
+
+// Chrome's account has a single token cache, like before accounts existed
+const tokenCache = (account?: Account) =>
+  tokenCacheItem(account?.source === "linked" ? account.email : undefined)
+
+export const getCachedToken = async (account?: Account) => {
+  const cached = await tokenCache(account).get()
+  if (cached?.token && Date.now() - cached.timestamp < TOKEN_MAX_AGE) {
+    return cached.token
+  }
+}
+
+export const cacheToken = async (
+  account: Account | undefined,
+  token: string
+) => {
+  await tokenCache(account).set({ token, timestamp: Date.now() })
+}
+
+export const clearCachedToken = async (account?: Account) => {
+  await tokenCache(account).remove()
+}
+
+/**
+ * Runs the OAuth implicit flow in a browser popup. Silent (`prompt=none`)
+ * unless interactive; `loginHint` pins the account, otherwise Google asks
+ * the user to pick one.
+ */
+export const launchGoogleAuth = async ({
+  interactive,
+  loginHint
+}: {
+  interactive: boolean
+  loginHint?: string
+}): Promise<string> => {
+  if (!canLinkAccounts) {
+    throw new Error(
+      "Linking accounts isn't set up: PLASMO_PUBLIC_GOOGLE_WEB_CLIENT_ID is missing from this build"
+    )
+  }
+  const { oauth2 } = chrome.runtime.getManifest()
+  const params = new URLSearchParams({
+    client_id: WEB_CLIENT_ID,
+    response_type: "token",
+    redirect_uri: chrome.identity.getRedirectURL(),
+    scope: oauth2.scopes.join(" "),
+    prompt: interactive ? (loginHint ? "consent" : "select_account") : "none"
+  })
+  if (loginHint) params.set("login_hint", loginHint)
+
+  const redirect = await chrome.identity.launchWebAuthFlow({
+    url: `${AUTH_URL}?${params}`,
+    interactive
+  })
+  const result = new URLSearchParams(new URL(redirect).hash.slice(1))
+  const token = result.get("access_token")
+  if (!token) {
+    throw new Error(result.get("error") || "No token received")
+  }
+  return token
+}
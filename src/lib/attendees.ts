@@ -0,0 +1,113 @@
+import type { CalendarEvent } from "./calendar"
+import {
+  contactIndexFor,
+  createContactIndex,
+  type ContactMatch
+} from "./contactIndex"
+import type { Contact } from "./contacts"
+
+// Turns people named without an email ("Lunch with Ryan and Priya") into
+// attendees. A name one contact clearly matches is attached; otherwise the
+// name is kept on the event with its candidates so the review card can
+// ask which one was meant.
+
+// Weaker matches than this aren't offered at all
+const MIN_SCORE = 0.6
+// A lead this large (about one affinity tier) makes the top match clear
+const CLEAR_LEAD = 15
+const MAX_CANDIDATES = 4
+
+const isClearMatch = ([best, next]: ContactMatch[]) =>
+  !!best &&
+  (!next ||
+    (best.score === 1 && next.score < 1) ||
+    best.rank - next.rank >= CLEAR_LEAD)
+
+const hasAttendee = (event: CalendarEvent, email: string) =>
+  (event.attendees || []).some(
+    (att) => att.email.toLowerCase() === email.toLowerCase()
+  )
+
+const addAttendee = (event: CalendarEvent, contact: Contact): CalendarEvent =>
+  hasAttendee(event, contact.email)
+    ? event
+    : {
+        ...event,
+        attendees: [
+          ...(event.attendees || []),
+          { email: contact.email, displayName: contact.name }
+        ]
+      }
+
+/** Looks up the event's `attendeeNames` in `contacts`. */
+export const resolveAttendeeNames = (
+  event: CalendarEvent,
+  contacts: Contact[]
+): CalendarEvent => {
+  const { attendeeNames, ...rest } = event
+  if (!attendeeNames?.length) return event
+
+  const index = contactIndexFor(contacts)
+  let resolved: CalendarEvent = rest
+  const unresolved = [...(event.unresolvedAttendees || [])]
+
+  for (const name of attendeeNames) {
+    if (unresolved.some((u) => u.name === name)) continue
+
+    const matches = index
+      .match(name, MAX_CANDIDATES)
+      .filter((m) => m.score >= MIN_SCORE)
+    // Already invited by email, e.g. "Ryan <ryan@example.com>"
+    if (matches.some((m) => hasAttendee(resolved, m.contact.email))) continue
+
+    if (isClearMatch(matches)) {
+      resolved = addAttendee(resolved, matches[0].contact)
+    } else {
+      unresolved.push({ name, candidates: matches.map((m) => m.contact) })
+    }
+  }
+
+  return {
+    ...resolved,
+    unresolvedAttendees: unresolved.length ? unresolved : undefined
+  }
+}
+
+/**
+ * Invites the contacts the user picked while typing. Names the model or
+ * parser also found for them are dropped so they aren't resolved twice.
+ */
+export const withContactAttendees = (
+  event: CalendarEvent,
+  contacts: Contact[]
+): CalendarEvent => {
+  if (contacts.length === 0) return event
+
+  const picked = createContactIndex(contacts)
+  const attendeeNames = event.attendeeNames?.filter(
+    (name) => !picked.match(name, 1).some((m) => m.score >= MIN_SCORE)
+  )
+  return {
+    ...contacts.reduce(addAttendee, event),
+    attendeeNames: attendeeNames?.length ? attendeeNames : undefined
+  }
+}
+
+/**
+ * Settles an unresolved name: invites `contact`, or drops the name when
+ * none is given.
+ */
+export const chooseAttendee = (
+  event: CalendarEvent,
+  name: string,
+  contact?: Contact
+): CalendarEvent => {
+  const unresolved = (event.unresolvedAttendees || []).filter(
+    (u) => u.name !== name
+  )
+  const updated = contact ? addAttendee(event, contact) : event
+  return {
+    ...updated,
+    unresolvedAttendees: unresolved.length ? unresolved : undefined
+  }
+}
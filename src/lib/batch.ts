@@ -0,0 +1,45 @@
+import { createEvent, type CalendarEvent, type ExistingEvent } from "./calendar"
+import type { OutboxItem } from "./outbox"
+
+// Creating a reviewed plan event by event, so one failure doesn't hide
+// which of the others made it onto the calendar.
+
+// "queued": the API couldn't be reached; the background outbox retries it
+export type CreationState = "creating" | "created" | "queued" | "failed"
+
+export interface CreationStatus {
+  state: CreationState
+  // API error for failed events
+  error?: string
+  // The event as created, for created events
+  created?: ExistingEvent
+  // The outbox entry, for queued events
+  queued?: OutboxItem
+}
+
+/**
+ * Creates each of `events` independently (in parallel) and reports every
+ * outcome through `onStatus` as it settles. Resolves once all have settled.
+ */
+export const createEventsIndividually = async (
+  events: { index: number; event: CalendarEvent }[],
+  onStatus: (index: number, status: CreationStatus) => void
+) => {
+  await Promise.all(
+    events.map(async ({ index, event }) => {
+      onStatus(index, { state: "creating" })
+      try {
+        const { created, queued } = await createEvent(event)
+        onStatus(
+          index,
+          queued ? { state: "queued", queued } : { state: "created", created }
+        )
+      } catch (e) {
+        onStatus(index, {
+          state: "failed",
+          error: e instanceof Error ? e.message : String(e)
+        })
+      }
+    })
+  )
+}
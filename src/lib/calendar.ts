@@ -1,228 +1,354 @@
-export interface CalendarEvent {
+import { z } from "zod"
+
+import { getActiveAccount, resolveAccount } from "./accounts"
+import {
+  fetchAllPages,
+  getAuthToken,
+  GoogleApiError,
+  googleRequest,
+  NotFoundError,
+  registerChromeAccount
+} from "./googleApi"
+import { recordInvites, type Contact } from "./contacts"
+import { sendToBackground } from "./messages"
+import type { OutboxItem } from "./outbox"
+import { parseRRule, toTimedUntil } from "./recurrence"
+import { DEFAULT_USER_CONFIG, getUserConfig } from "./storage"
+
+// Where an event lives. Lanner-only, never sent to the API
+export interface CalendarTarget {
+  // Email of the account to act as; defaults to the active account
+  accountId?: string
+  // Defaults to "primary"
+  calendarId?: string
+}
+
+export interface CalendarEvent extends CalendarTarget {
+  // Chosen by us for new events so a retried insert can't add the event
+  // twice; see newEventId
+  id?: string
   summary: string
   description?: string
   location?: string
-  attendees?: { email: string }[]
-  start: {
-    dateTime: string
-    timeZone?: string
-  }
-  end: {
-    dateTime: string
-    timeZone?: string
-  }
+  // `group` is Lanner-only: the @group mention that added the attendee
+  attendees?: { email: string; displayName?: string; group?: string }[]
+  // RFC 5545 lines, e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO"]
+  recurrence?: string[]
+  // Google's event color, "1" to "11"
+  colorId?: string
+  // Set on new events to ask Google for a Meet link
+  conferenceData?: { createRequest: { requestId: string; conferenceSolutionKey: { type: "hangoutsMeet" } } }
+  // Timed events use `dateTime`; all-day events use `date` (YYYY-MM-DD),
+  // with an exclusive `end.date`
+  start: EventDateTime
+  end: EventDateTime
+  // Lanner-only: people named without an email, until they're looked up
+  // in the contacts, and the ones no single contact matched
+  attendeeNames?: string[]
+  unresolvedAttendees?: UnresolvedAttendee[]
 }
 
-const LANNER_PREFIX = '📔 '
-const TOKEN_CACHE_KEY = 'lanner_auth_token'
+export interface UnresolvedAttendee {
+  name: string
+  // Contacts the name could mean, best first; empty when none matched
+  candidates: Contact[]
+}
 
-interface TokenCache {
-  token: string
-  timestamp: number
+export interface EventDateTime {
+  dateTime?: string
+  date?: string
+  timeZone?: string
 }
 
-const validateToken = async (token: string): Promise<boolean> => {
-  try {
-    const response = await fetch(
-      "https://www.googleapis.com/calendar/v3/calendars/primary/events?maxResults=1",
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      }
-    )
-    return response.ok
-  } catch (e) {
-    console.warn("Token validation failed", e)
-    return false
-  }
+const eventDateTimeSchema = z.looseObject({
+  dateTime: z.string().optional(),
+  date: z.string().optional(),
+  timeZone: z.string().optional()
+})
+
+// Checks the shape of events kept in storage; fields are kept as stored
+export const calendarEventSchema = z.looseObject({
+  summary: z.string(),
+  start: eventDateTimeSchema,
+  end: eventDateTimeSchema,
+  calendarId: z.string().optional(),
+  accountId: z.string().optional()
+})
+
+export const isAllDay = (event: CalendarEvent) => !!event.start.date
+
+// Attendees as the API takes them, without Lanner's own fields
+const toApiAttendees = (attendees: CalendarEvent["attendees"]) =>
+  attendees?.map(({ email, displayName }) => (displayName ? { email, displayName } : { email }))
+
+// Marks events Lanner created unless the user picked another prefix
+export const LANNER_PREFIX = DEFAULT_USER_CONFIG.titlePrefix
+const CALENDAR_API = "https://www.googleapis.com/calendar/v3"
+const FREE_BUSY_URL = `${CALENDAR_API}/freeBusy`
+const CALENDAR_LIST_URL = `${CALENDAR_API}/users/me/calendarList`
+
+const eventsUrl = (calendarId = "primary") =>
+  `${CALENDAR_API}/calendars/${encodeURIComponent(calendarId)}/events`
+
+/** An id for a new event, in the API's format: base32hex, 5 to 1024 chars. */
+export const newEventId = () => crypto.randomUUID().replace(/-/g, "")
+
+export interface CalendarListEntry {
+  id: string
+  summary: string
+  summaryOverride?: string
+  primary?: boolean
+  accessRole: "freeBusyReader" | "reader" | "writer" | "owner"
+  backgroundColor?: string
 }
 
-export const getAuthToken = async (interactive: boolean = true): Promise<string> => {
-  // 1. Check Cache
-  const cache = await chrome.storage.local.get(TOKEN_CACHE_KEY)
-  const cachedData = cache[TOKEN_CACHE_KEY] as TokenCache | undefined
+export const canWrite = (calendar: CalendarListEntry) =>
+  calendar.accessRole === "owner" || calendar.accessRole === "writer"
 
-  // Token is valid for ~60 mins usually. Let's be safe with 50 mins.
-  const MAX_AGE = 50 * 60 * 1000
-  const now = Date.now()
+export const calendarName = (calendar: CalendarListEntry) =>
+  calendar.summaryOverride || calendar.summary
 
-  if (cachedData && cachedData.token && (now - cachedData.timestamp < MAX_AGE)) {
-    console.debug("Using cached token")
-    return cachedData.token
-  }
+/** Finds a calendar by name, preferring exact over partial matches. */
+export const matchCalendar = (name: string | null | undefined, calendars: CalendarListEntry[]) => {
+  const query = name?.trim().toLowerCase()
+  if (!query) return undefined
+  const names = calendars.map((calendar) => ({ calendar, name: calendarName(calendar).toLowerCase() }))
+  return (
+    names.find((item) => item.name === query) ||
+    names.find((item) => item.name.startsWith(query)) ||
+    names.find((item) => item.name.includes(query))
+  )?.calendar
+}
 
-  // 2. Fetch New Token
-  if (typeof chrome.identity !== "undefined") {
-    const getToken = (isInteractive: boolean): Promise<string> => {
-      return new Promise((resolve, reject) => {
-        chrome.identity.getAuthToken({ interactive: isInteractive }, (token) => {
-          if (chrome.runtime.lastError || !token) {
-            reject(chrome.runtime.lastError?.message || "No token received")
-          } else {
-            resolve(token)
-          }
-        })
-      })
-    }
+// An event as returned by the Calendar API
+export interface ExistingEvent extends CalendarEvent {
+  id: string
+  htmlLink?: string
+  status?: string
+}
 
-    try {
-      let token = await getToken(interactive)
-
-      // Validate the token to ensure we have correct permissions
-      let isValid = await validateToken(token)
-
-      if (!isValid) {
-        console.warn("Token invalid, removing from cache and retrying if interactive")
-
-        // Remove invalid token from identity cache
-        await new Promise<void>((resolve) => {
-          chrome.identity.removeCachedAuthToken({ token }, () => resolve())
-        })
-
-        if (interactive) {
-          // Retry with interactive flow
-          token = await getToken(true)
-          isValid = await validateToken(token)
-          if (!isValid) {
-            throw new Error("Token still invalid after refresh")
-          }
-        } else {
-          throw new Error("Token invalid")
-        }
-      }
-
-      // Cache the new validated token
-      await chrome.storage.local.set({
-        [TOKEN_CACHE_KEY]: {
-          token,
-          timestamp: Date.now()
-        }
-      })
-      return token
-
-    } catch (e) {
-      // Propagate error
-      throw e
-    }
+export interface EventListQuery extends CalendarTarget {
+  q?: string
+  timeMin: string
+  timeMax: string
+  maxResults?: number
+}
 
-  } else {
-    // Fallback: Delegate to Background Script (e.g. from Content Script)
-    return new Promise((resolve, reject) => {
-      chrome.runtime.sendMessage(
-        { type: "GET_AUTH_TOKEN", payload: { interactive } },
-        (response) => {
-          if (chrome.runtime.lastError) {
-            reject(chrome.runtime.lastError.message)
-          } else if (response && response.error) {
-            reject(response.error)
-          } else if (response && response.token) {
-            resolve(response.token)
-          } else {
-            reject("Failed to retrieve token from background")
-          }
-        }
-      )
-    })
-  }
+export interface BusyInterval {
+  start: string
+  end: string
+}
+
+export interface FreeBusyQuery {
+  accountId?: string
+  timeMin: string
+  timeMax: string
+  // Calendar IDs or attendee emails; defaults to the user's primary calendar
+  calendarIds?: string[]
 }
 
-export const clearTokenCache = async () => {
-  await chrome.storage.local.remove(TOKEN_CACHE_KEY)
-  // Also try to remove from identity cache if possible/needed, but usually explicit removeCachedAuthToken is good
-  // For now, clearing local storage cache forces a new getAuthToken call which validates freshness
+// Accounts are registered on first sign-in, so this only falls back to
+// the profile lookup for Chrome's account before that
+const getUserEmail = async (token: string, accountId?: string): Promise<string> => {
+  const account = await resolveAccount(accountId)
+  if (account) return account.email
+  return (await registerChromeAccount(token)).email
 }
 
-const USER_EMAIL_CACHE_KEY = 'lanner_user_email'
+// Write access is checked up front so the user gets a clear message rather
+// than the API's 403
+const writableCalendars = new Set<string>()
 
-const getUserEmail = async (token: string): Promise<string | undefined> => {
-  const cache = await chrome.storage.local.get(USER_EMAIL_CACHE_KEY)
-  if (cache[USER_EMAIL_CACHE_KEY]) return cache[USER_EMAIL_CACHE_KEY]
+const assertWritable = async ({ accountId, calendarId = "primary" }: CalendarTarget) => {
+  if (calendarId === "primary") return
+  // Access differs per account for shared calendars
+  const key = `${accountId || (await getActiveAccount())?.email}/${calendarId}`
+  if (writableCalendars.has(key)) return
 
-  try {
-    const res = await fetch("https://www.googleapis.com/oauth2/v2/userinfo", {
-      headers: { Authorization: `Bearer ${token}` }
-    })
-    if (res.ok) {
-      const data = await res.json()
-      if (data.email) {
-        await chrome.storage.local.set({ [USER_EMAIL_CACHE_KEY]: data.email })
-        return data.email
-      }
-    }
-  } catch (e) {
-    console.warn("Failed to get user email", e)
+  const calendar = await googleRequest<CalendarListEntry>(`${CALENDAR_LIST_URL}/${encodeURIComponent(calendarId)}`, {
+    accountId,
+    errorMessage: "Calendar not found"
+  })
+  if (!canWrite(calendar)) {
+    throw new Error(`You don't have permission to add or change events on "${calendarName(calendar)}"`)
   }
+  writableCalendars.add(key)
 }
 
-export const createEventDirect = async (event: CalendarEvent) => {
-  let token = await getAuthToken(true)
+export const listCalendarsDirect = (accountId?: string) =>
+  fetchAllPages<CalendarListEntry>(CALENDAR_LIST_URL, "items", {
+    accountId,
+    query: { minAccessRole: "reader", maxResults: 250 },
+    errorMessage: "Failed to list calendars"
+  })
+
+export const createEventDirect = async ({
+  calendarId = "primary",
+  accountId,
+  // Names that weren't resolved aren't invited
+  attendeeNames: _names,
+  unresolvedAttendees: _unresolved,
+  ...event
+}: CalendarEvent) => {
+  const allDay = isAllDay(event)
+  if (allDay ? !event.end.date : !event.start.dateTime || !event.end.dateTime) {
+    throw new Error("Event start and end must both be dates or both be date-times")
+  }
 
-  const userEmail = await getUserEmail(token)
+  event.recurrence?.forEach((rule) => {
+    const { error } = parseRRule(rule)
+    if (error) {
+      throw new Error(`Invalid recurrence rule "${rule}": ${error}`)
+    }
+  })
+
+  await assertWritable({ accountId, calendarId })
+
+  const token = await getAuthToken(true, accountId)
+  const config = await getUserConfig()
+
+  const userEmail = await getUserEmail(token, accountId)
   const attendees = [...(event.attendees || [])]
-  if (userEmail && !attendees.some(a => a.email === userEmail)) {
+  if (config.addSelfAsAttendee && userEmail && !attendees.some(a => a.email === userEmail)) {
     attendees.push({ email: userEmail })
   }
 
   const modifiedEvent = {
     ...event,
-    summary: LANNER_PREFIX + event.summary,
-    attendees
+    summary: config.titlePrefix + event.summary,
+    attendees: toApiAttendees(attendees),
+    recurrence: allDay ? event.recurrence : event.recurrence?.map(toTimedUntil)
   }
 
-  const makeRequest = async (authToken: string) => {
-    return fetch(
-      "https://www.googleapis.com/calendar/v3/calendars/primary/events",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${authToken}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(modifiedEvent),
-      }
-    )
+  let created: ExistingEvent
+  try {
+    created = await googleRequest<ExistingEvent>(eventsUrl(calendarId), {
+      method: "POST",
+      body: modifiedEvent,
+      // Without it the Meet request is ignored
+      query: { conferenceDataVersion: event.conferenceData ? 1 : undefined },
+      accountId,
+      errorMessage: "Failed to create event"
+    })
+  } catch (e) {
+    // An earlier attempt with this id went through but its response was lost
+    if (!(event.id && e instanceof GoogleApiError && e.status === 409)) throw e
+    created = await googleRequest<ExistingEvent>(`${eventsUrl(calendarId)}/${encodeURIComponent(event.id)}`, {
+      accountId,
+      errorMessage: "Failed to create event"
+    })
   }
 
-  let response = await makeRequest(token)
+  // Ranks the invitees higher in contact suggestions
+  await recordInvites(userEmail, event.attendees || []).catch((e) => console.warn("Couldn't record invites", e))
 
-  // Handle 401 Unauthorized - Retry once with fresh token
-  if (response.status === 401) {
-    console.log("Token invalid/expired. Refreshing...")
-    // Invalidate cache
-    await clearTokenCache()
-    // Try to clear identity cache too to be sure
-    await new Promise<void>((resolve) => {
-      chrome.identity.removeCachedAuthToken({ token }, () => resolve())
-    })
+  // Tagged so later updates and undo reach the same calendar
+  return { ...created, calendarId, accountId: userEmail }
+}
 
-    // Fetch fresh token
-    token = await getAuthToken(true)
-    response = await makeRequest(token)
+export const listEventsDirect = async (query: EventListQuery): Promise<ExistingEvent[]> => {
+  const data = await googleRequest<{ items?: ExistingEvent[] }>(eventsUrl(query.calendarId), {
+    accountId: query.accountId,
+    query: {
+      singleEvents: true,
+      orderBy: "startTime",
+      timeMin: query.timeMin,
+      timeMax: query.timeMax,
+      maxResults: query.maxResults || 50,
+      q: query.q || undefined
+    },
+    errorMessage: "Failed to list events"
+  })
+
+  const accountId = (await resolveAccount(query.accountId))?.email
+  return (data.items || [])
+    .filter((item: ExistingEvent) => item.status !== "cancelled")
+    .map((item: ExistingEvent) => ({ ...item, calendarId: query.calendarId || "primary", accountId }))
+}
+
+export const updateEventDirect = async (
+  eventId: string,
+  patch: Partial<CalendarEvent>,
+  target: CalendarTarget = {}
+): Promise<ExistingEvent> => {
+  await assertWritable(target)
+
+  return googleRequest<ExistingEvent>(`${eventsUrl(target.calendarId)}/${encodeURIComponent(eventId)}`, {
+    method: "PATCH",
+    body: patch.attendees ? { ...patch, attendees: toApiAttendees(patch.attendees) } : patch,
+    accountId: target.accountId,
+    errorMessage: "Failed to update event"
+  })
+}
+
+export const deleteEventDirect = async (eventId: string, target: CalendarTarget = {}) => {
+  await assertWritable(target)
+
+  try {
+    await googleRequest(`${eventsUrl(target.calendarId)}/${encodeURIComponent(eventId)}`, {
+      method: "DELETE",
+      accountId: target.accountId,
+      errorMessage: "Failed to delete event"
+    })
+  } catch (e) {
+    // 410 Gone: already deleted
+    if (!(e instanceof NotFoundError && e.status === 410)) throw e
   }
+}
+
+/**
+ * Busy intervals per calendar ID, from the freeBusy API. Calendars whose
+ * availability isn't visible to the user are left out.
+ */
+export const queryFreeBusyDirect = async (query: FreeBusyQuery): Promise<Record<string, BusyInterval[]>> => {
+  const calendarIds = query.calendarIds?.length ? query.calendarIds : ["primary"]
+  const data = await googleRequest<{ calendars?: Record<string, { busy?: BusyInterval[]; errors?: unknown[] }> }>(
+    FREE_BUSY_URL,
+    {
+      method: "POST",
+      body: {
+        timeMin: query.timeMin,
+        timeMax: query.timeMax,
+        items: calendarIds.map((id) => ({ id }))
+      },
+      accountId: query.accountId,
+      errorMessage: "Failed to check availability"
+    }
+  )
 
-  if (!response.ok) {
-    const error = await response.json()
-    console.error({ error })
-    throw new Error(error.error?.message || "Failed to create event")
+  const busy: Record<string, BusyInterval[]> = {}
+  for (const id of calendarIds) {
+    const calendar = data.calendars?.[id]
+    if (!calendar || calendar.errors?.length) {
+      console.warn(`Free/busy unavailable for ${id}`, calendar?.errors)
+      continue
+    }
+    busy[id] = calendar.busy || []
   }
+  return busy
+}
 
-  return response.json()
-}
-
-export const createEvent = async (event: CalendarEvent) => {
-  return new Promise((resolve, reject) => {
-    chrome.runtime.sendMessage(
-      { type: "CREATE_EVENT", payload: event },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          reject(chrome.runtime.lastError)
-        } else if (response.error) {
-          reject(new Error(response.error))
-        } else {
-          resolve(response.data)
-        }
-      }
-    )
-  })
+// Background reply to CREATE_EVENT: the event as created, or the outbox
+// entry it was queued as when the API couldn't be reached
+export interface CreateEventResult {
+  created?: ExistingEvent
+  queued?: OutboxItem
 }
+
+export const createEvent = (event: CalendarEvent) =>
+  sendToBackground("CREATE_EVENT", event)
+
+export const listEvents = (query: EventListQuery) =>
+  sendToBackground("LIST_EVENTS", query)
+
+export const listCalendars = (accountId?: string) =>
+  sendToBackground("LIST_CALENDARS", { accountId })
+
+export const updateEvent = (eventId: string, patch: Partial<CalendarEvent>, target?: CalendarTarget) =>
+  sendToBackground("UPDATE_EVENT", { eventId, patch, target })
+
+export const deleteEvent = (eventId: string, target?: CalendarTarget) =>
+  sendToBackground("DELETE_EVENT", { eventId, target })
+
+export const queryFreeBusy = (query: FreeBusyQuery) =>
+  sendToBackground("QUERY_FREE_BUSY", query)
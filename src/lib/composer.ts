@@ -0,0 +1,164 @@
+import type { Contact } from "./contacts"
+
+// Contacts picked from the @mention list. The composer shows each as an
+// "@Ryan Smith" chip that is edited as one unit, and the picked contacts
+// travel with the request instead of being re-read from its text.
+
+export interface ContactMention {
+  contact: Contact
+  // The chip's text, "@Ryan Smith"
+  label: string
+}
+
+export interface MentionSpan {
+  start: number
+  end: number
+  mention: ContactMention
+}
+
+export interface ComposerState {
+  text: string
+  mentions: ContactMention[]
+  // Where the caret belongs when an edit removed a whole chip
+  cursor?: number
+}
+
+/** What a request carries to planning: plain text plus picked contacts. */
+export interface ComposedRequest {
+  text: string
+  contacts: Contact[]
+}
+
+export const mentionFor = (contact: Contact): ContactMention => ({
+  contact,
+  label: `@${contact.name || contact.email}`
+})
+
+const isNameChar = (char: string | undefined) =>
+  !!char && /[\p{L}\p{N}_.-]/u.test(char)
+
+/**
+ * Where each mention's chip sits in `text`, in text order. Mentions with
+ * the same label take its occurrences in the order they were picked.
+ */
+export const findMentionSpans = (
+  text: string,
+  mentions: ContactMention[]
+): MentionSpan[] => {
+  const spans: MentionSpan[] = []
+  const searchFrom = new Map<string, number>()
+
+  for (const mention of mentions) {
+    let index = text.indexOf(mention.label, searchFrom.get(mention.label) || 0)
+    // "@Ryan" must not match the start of "@Ryans"
+    while (
+      index !== -1 &&
+      (isNameChar(text[index + mention.label.length]) ||
+        (index > 0 && !/\s/.test(text[index - 1])))
+    ) {
+      index = text.indexOf(mention.label, index + 1)
+    }
+    if (index === -1) continue
+    searchFrom.set(mention.label, index + mention.label.length)
+    spans.push({ start: index, end: index + mention.label.length, mention })
+  }
+
+  return spans.sort((a, b) => a.start - b.start)
+}
+
+const isIn = (text: string) => (mention: ContactMention) =>
+  findMentionSpans(text, [mention]).length > 0
+
+/**
+ * Applies a textarea edit from `prev` to `next`. Deleting any part of a
+ * chip deletes all of it; typing inside a chip turns it back into text.
+ */
+export const applyComposerEdit = (
+  prev: string,
+  next: string,
+  mentions: ContactMention[]
+): ComposerState => {
+  // The edit replaced prev[start, prevEnd) with next[start, nextEnd)
+  let start = 0
+  while (start < prev.length && prev[start] === next[start]) start++
+  let prevEnd = prev.length
+  let nextEnd = next.length
+  while (
+    prevEnd > start &&
+    nextEnd > start &&
+    prev[prevEnd - 1] === next[nextEnd - 1]
+  ) {
+    prevEnd--
+    nextEnd--
+  }
+
+  const spans = findMentionSpans(prev, mentions)
+  const removed = prevEnd > start
+  const broken = spans.filter((span) =>
+    removed
+      ? start < span.end && prevEnd > span.start
+      : start > span.start && start < span.end
+  )
+  if (broken.length === 0) {
+    return { text: next, mentions: mentions.filter(isIn(next)) }
+  }
+
+  const dropped = new Set(broken.map((span) => span.mention))
+  const kept = mentions.filter((mention) => !dropped.has(mention))
+  if (!removed) {
+    return { text: next, mentions: kept.filter(isIn(next)) }
+  }
+
+  // Widen the deletion to the chips it touched
+  const from = Math.min(start, ...broken.map((span) => span.start))
+  let to = Math.max(prevEnd, ...broken.map((span) => span.end))
+  const inserted = next.slice(start, nextEnd)
+  // Along with the space the chip was typed with
+  if (
+    !inserted &&
+    prev[to] === " " &&
+    (from === 0 || /\s/.test(prev[from - 1]))
+  ) {
+    to++
+  }
+  const text = prev.slice(0, from) + inserted + prev.slice(to)
+  return {
+    text,
+    mentions: kept.filter(isIn(text)),
+    cursor: from + inserted.length
+  }
+}
+
+/** The span the caret at `position` is inside of or right after, if any. */
+export const mentionAt = (
+  text: string,
+  mentions: ContactMention[],
+  position: number
+) =>
+  findMentionSpans(text, mentions).find(
+    (span) => position > span.start && position <= span.end
+  )
+
+/**
+ * Turns the composer's content into a request: chips become the plain
+ * name for the model, and their contacts are passed alongside.
+ */
+export const composeRequest = (
+  text: string,
+  mentions: ContactMention[]
+): ComposedRequest => {
+  const spans = findMentionSpans(text, mentions)
+  let plain = ""
+  let last = 0
+  for (const span of spans) {
+    plain += text.slice(last, span.start) + span.mention.label.slice(1)
+    last = span.end
+  }
+  plain += text.slice(last)
+
+  const contacts = new Map<string, Contact>()
+  for (const span of spans) {
+    contacts.set(span.mention.contact.email.toLowerCase(), span.mention.contact)
+  }
+  return { text: plain, contacts: Array.from(contacts.values()) }
+}
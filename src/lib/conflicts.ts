@@ -0,0 +1,185 @@
+import {
+  isAllDay,
+  listEvents,
+  queryFreeBusy,
+  type BusyInterval,
+  type CalendarEvent,
+  type ExistingEvent
+} from "./calendar"
+import { toLocalDateTime } from "./dates"
+
+// Checks proposed events against what is already on the user's calendar
+// before they are created.
+
+export interface EventConflict {
+  start: Date
+  end: Date
+  // Title of the overlapping event; missing when only free/busy is visible
+  summary?: string
+  // The overlap is with another event in the same request
+  proposed?: boolean
+}
+
+export interface CalendarSnapshot {
+  busy: BusyInterval[]
+  existing: ExistingEvent[]
+}
+
+interface TimeRange {
+  start: Date
+  end: Date
+}
+
+// How far past the original time "next free slot" may move an event
+const SLOT_SEARCH_MS = 24 * 60 * 60 * 1000
+const SLOT_STEP_MINUTES = 5
+const MAX_SLOT_ATTEMPTS = 200
+
+// All-day events don't block time, so they are never checked
+const eventRange = (event: CalendarEvent): TimeRange | null => {
+  if (isAllDay(event) || !event.start.dateTime || !event.end.dateTime) {
+    return null
+  }
+  return {
+    start: new Date(event.start.dateTime),
+    end: new Date(event.end.dateTime)
+  }
+}
+
+const overlaps = (a: TimeRange, b: TimeRange) =>
+  a.start < b.end && b.start < a.end
+
+const toRange = (interval: BusyInterval): TimeRange => ({
+  start: new Date(interval.start),
+  end: new Date(interval.end)
+})
+
+/**
+ * Loads busy times (freeBusy) and the events behind them (events.list, used
+ * for titles) for the span covered by `events`, plus a day of headroom for
+ * finding free slots.
+ */
+export const loadCalendarSnapshot = async (
+  events: CalendarEvent[]
+): Promise<CalendarSnapshot> => {
+  const ranges = events.map(eventRange).filter(Boolean)
+  if (ranges.length === 0) return { busy: [], existing: [] }
+
+  const timeMin = new Date(
+    Math.min(...ranges.map((range) => range.start.getTime()))
+  )
+  const timeMax = new Date(
+    Math.max(...ranges.map((range) => range.end.getTime())) + SLOT_SEARCH_MS
+  )
+  const window = {
+    timeMin: timeMin.toISOString(),
+    timeMax: timeMax.toISOString()
+  }
+
+  const [freeBusy, existing] = await Promise.all([
+    queryFreeBusy(window),
+    // Titles are a nice-to-have; free/busy alone is enough to flag overlaps
+    listEvents({ ...window, maxResults: 250 }).catch((e) => {
+      console.warn("Failed to load event titles for conflicts", e)
+      return [] as ExistingEvent[]
+    })
+  ])
+
+  return { busy: freeBusy.primary || [], existing }
+}
+
+/** Overlaps for each of `events`, in the same order. */
+export const findConflicts = (
+  events: CalendarEvent[],
+  snapshot: CalendarSnapshot
+): EventConflict[][] => {
+  const existingRanges = snapshot.existing
+    .map((event) => ({ event, range: eventRange(event) }))
+    .filter(({ range }) => range)
+
+  return events.map((event, index) => {
+    const range = eventRange(event)
+    if (!range) return []
+
+    const conflicts: EventConflict[] = []
+    const named = new Set<string>()
+
+    for (const interval of snapshot.busy.map(toRange)) {
+      if (!overlaps(range, interval)) continue
+
+      const matches = existingRanges.filter(
+        (item) => overlaps(item.range, interval) && overlaps(item.range, range)
+      )
+      if (matches.length === 0) {
+        conflicts.push({ start: interval.start, end: interval.end })
+      }
+      for (const { event: match, range: matchRange } of matches) {
+        if (named.has(match.id)) continue
+        named.add(match.id)
+        conflicts.push({ ...matchRange, summary: match.summary })
+      }
+    }
+
+    events.forEach((other, otherIndex) => {
+      const otherRange = otherIndex !== index && eventRange(other)
+      if (otherRange && overlaps(range, otherRange)) {
+        conflicts.push({
+          ...otherRange,
+          summary: other.summary,
+          proposed: true
+        })
+      }
+    })
+
+    return conflicts.sort((a, b) => a.start.getTime() - b.start.getTime())
+  })
+}
+
+const roundUpToStep = (date: Date) => {
+  const step = SLOT_STEP_MINUTES * 60 * 1000
+  return new Date(Math.ceil(date.getTime() / step) * step)
+}
+
+/**
+ * Moves `event` to the earliest time after its current start where it
+ * overlaps neither busy time nor `others`, keeping its duration. Returns
+ * null when nothing is free within a day.
+ */
+export const findNextFreeSlot = (
+  event: CalendarEvent,
+  snapshot: CalendarSnapshot,
+  others: CalendarEvent[] = []
+): CalendarEvent | null => {
+  const range = eventRange(event)
+  if (!range) return null
+
+  const duration = range.end.getTime() - range.start.getTime()
+  const limit = range.start.getTime() + SLOT_SEARCH_MS
+  const blocked = [
+    ...snapshot.busy.map(toRange),
+    ...others.map(eventRange).filter(Boolean)
+  ]
+
+  let start = range.start
+  for (let attempt = 0; attempt < MAX_SLOT_ATTEMPTS; attempt++) {
+    if (start.getTime() > limit) return null
+
+    const candidate = {
+      start,
+      end: new Date(start.getTime() + duration)
+    }
+    const clashes = blocked.filter((interval) => overlaps(candidate, interval))
+    if (clashes.length === 0) {
+      return {
+        ...event,
+        start: { ...event.start, dateTime: toLocalDateTime(candidate.start) },
+        end: { ...event.end, dateTime: toLocalDateTime(candidate.end) }
+      }
+    }
+
+    start = roundUpToStep(
+      new Date(Math.max(...clashes.map((interval) => interval.end.getTime())))
+    )
+  }
+  return null
+}
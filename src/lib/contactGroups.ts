@@ -0,0 +1,302 @@
+import { z } from "zod"
+
+import { getActiveAccount } from "./accounts"
+import type { CalendarEvent } from "./calendar"
+import { getContacts } from "./contacts"
+import { fetchAllPages, googleRequest } from "./googleApi"
+import { defineAccountItem, defineItem, StorageKeys } from "./storage"
+
+// Named groups ("@eng-team") and personal aliases ("@mom") that expand to
+// attendees. Users define their own in settings; Google contact groups of
+// the active account are imported alongside them.
+
+export interface ContactGroup {
+  // What follows the @, e.g. "eng-team"
+  handle: string
+  name: string
+  members: string[]
+  source: "custom" | "google"
+}
+
+export interface ContactAlias {
+  handle: string
+  email: string
+  name?: string
+}
+
+export interface MentionShortcuts {
+  groups: ContactGroup[]
+  aliases: ContactAlias[]
+}
+
+export type Attendee = NonNullable<CalendarEvent["attendees"]>[number]
+
+interface GoogleGroupsCache {
+  data: ContactGroup[]
+  timestamp: number
+}
+
+const contactGroupSchema = z.looseObject({
+  handle: z.string(),
+  name: z.string(),
+  members: z.array(z.string()),
+  source: z.enum(["custom", "google"])
+})
+
+/** The user's own groups and aliases. */
+export const mentionShortcutsItem = defineItem<MentionShortcuts>(
+  StorageKeys.MENTION_SHORTCUTS,
+  z.object({
+    groups: z.array(contactGroupSchema),
+    aliases: z.array(
+      z.looseObject({
+        handle: z.string(),
+        email: z.string(),
+        name: z.string().optional()
+      })
+    )
+  }),
+  { groups: [], aliases: [] }
+)
+
+const googleGroupsItem = defineAccountItem<GoogleGroupsCache | undefined>(
+  StorageKeys.CONTACT_GROUPS,
+  z
+    .object({ data: z.array(contactGroupSchema), timestamp: z.number() })
+    .optional(),
+  undefined
+)
+
+const GOOGLE_GROUPS_MAX_AGE = 24 * 60 * 60 * 1000 // 24 hours
+const PEOPLE_API = "https://people.googleapis.com/v1"
+
+const HANDLE_RE = /@([\p{L}\p{N}_.-]+)/gu
+
+/** "Eng Team" -> "eng-team" */
+export const toHandle = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}_.-]/gu, "")
+
+/** Saves the user's own groups and aliases. */
+export const saveCustomShortcuts = async (shortcuts: MentionShortcuts) => {
+  await mentionShortcutsItem.set({
+    groups: shortcuts.groups.map((group) => ({
+      ...group,
+      source: "custom"
+    })),
+    aliases: shortcuts.aliases
+  })
+}
+
+// User-defined contact groups; system groups like "myContacts" are skipped
+const fetchGoogleGroups = async (
+  accountId?: string
+): Promise<ContactGroup[]> => {
+  const groups = await fetchAllPages<any>(
+    `${PEOPLE_API}/contactGroups`,
+    "contactGroups",
+    {
+      accountId,
+      query: { groupFields: "name,groupType,memberCount", pageSize: 1000 },
+      interactive: false,
+      errorMessage: "Failed to load contact groups"
+    }
+  )
+  const userGroups = groups.filter(
+    (group) => group.groupType === "USER_CONTACT_GROUP" && group.memberCount > 0
+  )
+  if (userGroups.length === 0) return []
+
+  // Members come back as resource names; connections carry the same IDs
+  const contacts = await getContacts()
+  const emails = new Map(contacts.map((c) => [c.id, c.email]))
+
+  return Promise.all(
+    userGroups.map(async (group) => {
+      const data = await googleRequest<{ memberResourceNames?: string[] }>(
+        `${PEOPLE_API}/${group.resourceName}`,
+        {
+          accountId,
+          query: { maxMembers: 1000 },
+          interactive: false,
+          errorMessage: `Failed to load contact group "${group.name}"`
+        }
+      )
+      return {
+        handle: toHandle(group.name),
+        name: group.name,
+        members: (data?.memberResourceNames || [])
+          .map((resourceName) => emails.get(resourceName))
+          .filter((email): email is string => !!email),
+        source: "google" as const
+      }
+    })
+  )
+}
+
+/**
+ * Google contact groups of the active account, refreshed daily or when
+ * `forceRefresh`. The last import is used while Google can't be reached.
+ */
+export const getGoogleGroups = async (
+  forceRefresh = false
+): Promise<ContactGroup[]> => {
+  const account = await getActiveAccount()
+  const cacheItem = googleGroupsItem(account?.email)
+  const cached = await cacheItem.get()
+
+  if (
+    !forceRefresh &&
+    cached &&
+    Date.now() - cached.timestamp < GOOGLE_GROUPS_MAX_AGE
+  ) {
+    return cached.data
+  }
+
+  try {
+    const data = await fetchGoogleGroups(account?.email)
+    await cacheItem.set({ data, timestamp: Date.now() })
+    return data
+  } catch (e) {
+    if (forceRefresh || !cached) throw e
+    console.warn("Couldn't refresh contact groups", e)
+    return cached.data
+  }
+}
+
+/**
+ * The user's groups and aliases plus imported Google groups. A custom
+ * group wins over a Google group with the same handle.
+ */
+export const getMentionShortcuts = async (): Promise<MentionShortcuts> => {
+  const custom = await mentionShortcutsItem.get()
+  const google = await getGoogleGroups().catch((e) => {
+    console.warn("Contact groups unavailable", e)
+    return [] as ContactGroup[]
+  })
+  const taken = new Set(custom.groups.map((group) => group.handle))
+  return {
+    groups: [
+      ...custom.groups,
+      ...google.filter((group) => !taken.has(group.handle))
+    ],
+    aliases: custom.aliases
+  }
+}
+
+export const findShortcut = (
+  handle: string,
+  shortcuts: MentionShortcuts
+): ContactGroup | ContactAlias | undefined => {
+  const key = handle.toLowerCase()
+  return (
+    shortcuts.aliases.find((alias) => alias.handle === key) ||
+    shortcuts.groups.find((group) => group.handle === key)
+  )
+}
+
+/** Whether a typed @query could mean `shortcut`. */
+export const matchesShortcut = (
+  shortcut: ContactGroup | ContactAlias,
+  query: string
+) => {
+  const q = query.toLowerCase()
+  return (
+    shortcut.handle.startsWith(q) ||
+    (shortcut.name || "").toLowerCase().includes(q)
+  )
+}
+
+export const isGroup = (
+  shortcut: ContactGroup | ContactAlias
+): shortcut is ContactGroup => "members" in shortcut
+
+/** The attendees a shortcut stands for; group members are tagged with it. */
+export const shortcutAttendees = (
+  shortcut: ContactGroup | ContactAlias
+): Attendee[] =>
+  isGroup(shortcut)
+    ? shortcut.members.map((email) => ({ email, group: shortcut.name }))
+    : [
+        {
+          email: shortcut.email,
+          ...(shortcut.name ? { displayName: shortcut.name } : {})
+        }
+      ]
+
+export interface MentionExpansion {
+  attendees: Attendee[]
+  // Handles that matched a group or alias, without the @
+  handles: string[]
+}
+
+/** Finds @group and @alias mentions in `text` and their attendees. */
+export const expandMentions = (
+  text: string,
+  shortcuts: MentionShortcuts
+): MentionExpansion => {
+  const attendees: Attendee[] = []
+  const handles: string[] = []
+  for (const match of text.matchAll(HANDLE_RE)) {
+    // Skip the middle of an email address
+    if (match.index > 0 && /\S/.test(text[match.index - 1])) continue
+    // "@eng-team." at the end of a sentence
+    const handle = match[1].replace(/\.+$/, "")
+    const shortcut = findShortcut(handle, shortcuts)
+    if (!shortcut) continue
+    handles.push(handle)
+    attendees.push(...shortcutAttendees(shortcut))
+  }
+  return { attendees, handles }
+}
+
+/**
+ * Adds mention attendees to `event`, once per email. Attendees already on
+ * the event are tagged with their group.
+ */
+export const withMentionAttendees = (
+  event: CalendarEvent,
+  { attendees, handles }: MentionExpansion
+): CalendarEvent => {
+  if (handles.length === 0) return event
+
+  const merged = new Map(
+    (event.attendees || []).map((att) => [att.email.toLowerCase(), att])
+  )
+  for (const att of attendees) {
+    const key = att.email.toLowerCase()
+    const existing = merged.get(key)
+    merged.set(
+      key,
+      existing
+        ? { ...att, ...existing, group: existing.group || att.group }
+        : att
+    )
+  }
+
+  // The model sometimes keeps "@eng-team" in the title
+  const mention = new RegExp(
+    `(^|\\s)@(?:${handles.map((h) => h.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})(?![\\p{L}\\p{N}_-])`,
+    "giu"
+  )
+  const summary = event.summary
+    .replace(mention, "$1")
+    .replace(/\s{2,}/g, " ")
+    .trim()
+
+  // The model may also list "@eng-team" or "Eng Team" as a person's name
+  const mentioned = new Set(handles.map((h) => h.toLowerCase()))
+  const attendeeNames = event.attendeeNames?.filter(
+    (name) => !mentioned.has(toHandle(name.replace(/^@/, "")))
+  )
+
+  return {
+    ...event,
+    summary: summary || event.summary,
+    attendees: Array.from(merged.values()),
+    attendeeNames: attendeeNames?.length ? attendeeNames : undefined
+  }
+}
@@ -0,0 +1,214 @@
+import type { Contact } from "./contacts"
+
+// Local, offline contact search for @mentions and attendee pickers.
+// Matches tolerate typos, initials ("mk"), missing diacritics ("jose" for
+// "José") and either name order ("Kim Minsu" / "Minsu Kim"); people the
+// user meets often and recently rank first.
+
+export interface ContactMatch {
+  contact: Contact
+  // How well the text matches, 0 to 1
+  score: number
+  // `score` weighted by how often and recently the user met them
+  rank: number
+}
+
+export interface ContactIndex {
+  search(query: string, limit?: number): Contact[]
+  match(query: string, limit?: number): ContactMatch[]
+}
+
+interface IndexEntry {
+  contact: Contact
+  name: string
+  email: string
+  // Name words followed by the words of the email's local part
+  tokens: string[]
+  nameTokens: string[]
+  initials: string
+  affinity: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+const normalizeText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+
+const splitWords = (text: string) => text.split(/[\s._+\-,()]+/).filter(Boolean)
+
+/**
+ * Optimal string alignment distance (Levenshtein plus transpositions),
+ * giving up once it exceeds `max`.
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let prevPrev: number[] = []
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], prevPrev[j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, row[j])
+    }
+    if (rowMin > max) return max + 1
+    prevPrev = prev
+    prev = row
+  }
+  return prev[b.length]
+}
+
+// How well one typed word matches one word of a contact, 0 to 1
+const matchToken = (typed: string, token: string): number => {
+  if (token === typed) return 1
+  if (token.startsWith(typed)) return 0.9
+  if (typed.length < 3) return 0
+  const maxEdits = typed.length < 6 ? 1 : 2
+  if (editDistance(typed, token, maxEdits) <= maxEdits) return 0.75
+  // A typo in what is still a prefix, e.g. "jhon" for "johnson"
+  if (
+    token.length > typed.length &&
+    editDistance(typed, token.slice(0, typed.length), maxEdits) <= maxEdits
+  ) {
+    return 0.65
+  }
+  return 0
+}
+
+// Every typed word has to match a different word of the contact, in any order
+const matchTokens = (typed: string[], tokens: string[]): number => {
+  const used = new Set<number>()
+  let total = 0
+  for (const word of typed) {
+    let best = 0
+    let bestIndex = -1
+    tokens.forEach((token, i) => {
+      if (used.has(i)) return
+      const score = matchToken(word, token)
+      if (score > best) {
+        best = score
+        bestIndex = i
+      }
+    })
+    if (bestIndex < 0) return 0
+    used.add(bestIndex)
+    total += best
+  }
+  return total / typed.length
+}
+
+const textScore = (entry: IndexEntry, query: string): number => {
+  if (entry.email === query || entry.name === query) return 1
+
+  const typed = splitWords(query)
+  const sameWords =
+    typed.length === entry.nameTokens.length &&
+    [...typed].sort().join(" ") === [...entry.nameTokens].sort().join(" ")
+  if (sameWords) return 1
+
+  let score = matchTokens(typed, entry.tokens)
+
+  // "minsukim" or "kimminsu" typed without spaces
+  const compact = typed.join("")
+  if (entry.nameTokens.length > 1) {
+    const joined = [
+      entry.nameTokens.join(""),
+      [...entry.nameTokens].reverse().join("")
+    ]
+    if (joined.some((name) => name.startsWith(compact))) {
+      score = Math.max(score, 0.85)
+    }
+    // Initials in either order, e.g. "mk" or "km"
+    const reversed = [...entry.initials].reverse().join("")
+    if (
+      compact.length > 1 &&
+      (compact === entry.initials || compact === reversed)
+    ) {
+      score = Math.max(score, 0.8)
+    }
+  }
+
+  if (entry.name.includes(query) || entry.email.includes(query)) {
+    score = Math.max(score, 0.5)
+  }
+  return score
+}
+
+// Frequent and recent contact, up to about 30 points
+const affinityOf = (contact: Contact, now: number) => {
+  const frequency = Math.min(20, 6 * Math.log2(1 + (contact.interactions || 0)))
+  const recency = contact.lastContacted
+    ? 10 * Math.exp(-Math.max(0, now - contact.lastContacted) / (30 * DAY))
+    : 0
+  return frequency + recency
+}
+
+export const createContactIndex = (
+  contacts: Contact[],
+  now = Date.now()
+): ContactIndex => {
+  const entries: IndexEntry[] = contacts.map((contact) => {
+    const name = normalizeText(contact.name)
+    const email = normalizeText(contact.email)
+    const nameTokens = splitWords(name)
+    return {
+      contact,
+      name,
+      email,
+      tokens: [...nameTokens, ...splitWords(email.split("@")[0])],
+      nameTokens,
+      initials: nameTokens.map((token) => token[0]).join(""),
+      affinity: affinityOf(contact, now)
+    }
+  })
+
+  const match = (query: string, limit = 8): ContactMatch[] => {
+    const q = normalizeText(query)
+    const matches = q
+      ? entries
+          .map((entry) => ({ entry, score: textScore(entry, q) }))
+          .filter(({ score }) => score > 0)
+          .map(({ entry, score }) => ({
+            contact: entry.contact,
+            score,
+            rank: score * 100 + entry.affinity
+          }))
+      : entries.map((entry) => ({
+          contact: entry.contact,
+          score: 0,
+          rank: entry.affinity
+        }))
+
+    return matches
+      .sort(
+        (a, b) =>
+          b.rank - a.rank || a.contact.name.localeCompare(b.contact.name)
+      )
+      .slice(0, limit)
+  }
+
+  return {
+    match,
+    search: (query, limit) => match(query, limit).map(({ contact }) => contact)
+  }
+}
+
+const indexes = new WeakMap<Contact[], ContactIndex>()
+
+/** The index for a contact list, built once per list. */
+export const contactIndexFor = (contacts: Contact[]): ContactIndex => {
+  let index = indexes.get(contacts)
+  if (!index) {
+    index = createContactIndex(contacts)
+    indexes.set(contacts, index)
+  }
+  return index
+}
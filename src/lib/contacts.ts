@@ -1,4 +1,8 @@
-import { getAuthToken } from "./calendar"
+import { z } from "zod"
+
+import { getActiveAccount } from "./accounts"
+import { fetchAllPages, fetchPages, googleRequest, InvalidArgumentError, NotFoundError } from "./googleApi"
+import { defineAccountItem, StorageKeys } from "./storage"
 
 export interface Contact {
   id: string
@@ -6,70 +10,208 @@ export interface Contact {
   email: string
   photoUrl?: string
   lastContacted?: number // timestamp
+  interactions?: number // recent events together, incl. Lanner invites
 }
 
-const CACHE_KEY = "lanner_contacts_cache"
-const CACHE_DURATION = 24 * 60 * 60 * 1000 // 24 hours
+// Changes are synced this often; a full refresh runs before sync tokens
+// expire (7 days)
+const SYNC_INTERVAL = 60 * 60 * 1000 // 1 hour
+const FULL_SYNC_INTERVAL = 6 * 24 * 60 * 60 * 1000 // 6 days
+
+type ContactSource = "connections" | "otherContacts" | "attendees"
+type PeopleSource = Exclude<ContactSource, "attendees">
 
 interface ContactsCache {
+  // Merged and deduplicated view of `sources`
   data: Contact[]
+  // Last sync, full or incremental
   timestamp: number
+  fullSyncAt?: number
+  sources?: Record<ContactSource, Contact[]>
+  syncTokens?: Partial<Record<PeopleSource, string>>
+}
+
+interface Interaction {
+  count: number
+  last: number
+}
+
+export const contactSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  photoUrl: z.string().optional(),
+  lastContacted: z.number().optional(),
+  interactions: z.number().optional()
+})
+
+const contactListSchema = z.array(contactSchema)
+
+const contactsCacheItem = defineAccountItem<ContactsCache | undefined>(
+  StorageKeys.CONTACTS_CACHE,
+  z
+    .looseObject({
+      data: contactListSchema,
+      timestamp: z.number(),
+      fullSyncAt: z.number().optional(),
+      sources: z.record(z.enum(["connections", "otherContacts", "attendees"]), contactListSchema).optional(),
+      syncTokens: z.partialRecord(z.enum(["connections", "otherContacts"]), z.string()).optional()
+    })
+    .optional(),
+  undefined
+)
+
+// People invited through Lanner, by email; kept apart from the cache so
+// syncs don't lose them
+const invitesItem = defineAccountItem<Record<string, Interaction>>(
+  StorageKeys.CONTACT_INVITES,
+  z.record(z.string(), z.object({ count: z.number(), last: z.number() })),
+  {}
+)
+
+interface SourceSync {
+  contacts: Contact[]
+  syncToken?: string
 }
 
+const PEOPLE_API = "https://people.googleapis.com/v1"
+const EVENTS_URL = "https://www.googleapis.com/calendar/v3/calendars/primary/events"
+// `metadata` flags people deleted since the last sync
+const PERSON_FIELDS = "names,emailAddresses,photos,metadata"
+
+const PEOPLE_SOURCES: Record<PeopleSource, { url: string; itemsKey: string; fieldsParam: string; label: string }> = {
+  connections: {
+    url: `${PEOPLE_API}/people/me/connections`,
+    itemsKey: "connections",
+    fieldsParam: "personFields",
+    label: "contacts"
+  },
+  otherContacts: {
+    url: `${PEOPLE_API}/otherContacts`,
+    itemsKey: "otherContacts",
+    fieldsParam: "readMask",
+    label: "other contacts"
+  }
+}
+
+// Contacts of the active account, cached per account
 export async function getContacts(forceRefresh = false): Promise<Contact[]> {
-  if (!forceRefresh) {
-    const cache = await chrome.storage.local.get(CACHE_KEY)
-    const cachedData = cache[CACHE_KEY] as ContactsCache | undefined
-    if (cachedData && Date.now() - cachedData.timestamp < CACHE_DURATION) {
-      console.debug("Using cached contacts", cachedData.data.length)
-      return cachedData.data
-    }
+  const account = await getActiveAccount()
+  const cacheItem = contactsCacheItem(account?.email)
+
+  const cachedData = await cacheItem.get()
+  if (!forceRefresh && cachedData && Date.now() - cachedData.timestamp < SYNC_INTERVAL) {
+    console.debug("Using cached contacts", cachedData.data.length)
+    return withInvites(cachedData.data, await getInvites(account?.email))
   }
 
-  try {
-    const token = await getAuthToken(false) // Try silent first
-    const contacts = await fetchAllContacts(token)
+  // Caches from before incremental sync have no per-source lists
+  const fullSync = forceRefresh || !cachedData?.sources || Date.now() - (cachedData.fullSyncAt || 0) > FULL_SYNC_INTERVAL
+  const cache = await syncContacts(account?.email, cachedData, fullSync)
+
+  await cacheItem.set(cache)
 
-    await chrome.storage.local.set({
-      [CACHE_KEY]: {
-        data: contacts,
-        timestamp: Date.now()
-      }
+  return withInvites(cache.data, await getInvites(account?.email))
+}
+
+function getInvites(accountId?: string): Promise<Record<string, Interaction>> {
+  return invitesItem(accountId).get()
+}
+
+/** Counts the attendees of an event created through Lanner as contacted. */
+export async function recordInvites(accountId: string | undefined, attendees: { email: string }[], when = Date.now()) {
+  if (attendees.length === 0) return
+  await invitesItem(accountId).update((invites) => {
+    attendees.forEach(({ email }) => {
+      const id = email.toLowerCase()
+      invites[id] = { count: (invites[id]?.count || 0) + 1, last: Math.max(invites[id]?.last || 0, when) }
     })
+    return invites
+  })
+}
 
-    return contacts
-  } catch (e) {
-    console.error("Failed to fetch contacts", e)
-    return []
-  }
+// Adds Lanner invites to the contacts' activity; invitees missing from
+// the contacts are added
+function withInvites(contacts: Contact[], invites: Record<string, Interaction>): Contact[] {
+  if (Object.keys(invites).length === 0) return contacts
+  const seen = new Set<string>()
+  const merged = contacts.map(c => {
+    const invite = invites[c.email.toLowerCase()]
+    if (!invite) return c
+    seen.add(c.email.toLowerCase())
+    return {
+      ...c,
+      interactions: (c.interactions || 0) + invite.count,
+      lastContacted: Math.max(c.lastContacted || 0, invite.last)
+    }
+  })
+  Object.entries(invites).forEach(([email, invite]) => {
+    if (seen.has(email)) return
+    merged.push({ id: email, name: email.split("@")[0], email, interactions: invite.count, lastContacted: invite.last })
+  })
+  return merged
 }
 
-async function fetchAllContacts(token: string): Promise<Contact[]> {
-  // Parallel fetch from all sources
-  const [connections, otherContacts, recentAttendees] = await Promise.all([
-    fetchConnections(token),
-    fetchOtherContacts(token),
-    fetchRecentAttendees(token)
+/**
+ * Brings `previous` up to date, or fetches everything when there is no
+ * previous cache or `fullSync` is set. A source that fails keeps its
+ * previous contacts either way.
+ */
+async function syncContacts(accountId: string | undefined, previous?: ContactsCache, fullSync = !previous): Promise<ContactsCache> {
+  const now = Date.now()
+  // Only incremental syncs start from the previous sync tokens
+  const base = fullSync ? undefined : previous
+  // Parallel fetch from all sources; one failing source doesn't lose the others
+  const results = await Promise.allSettled([
+    syncPeople("connections", accountId, base),
+    syncPeople("otherContacts", accountId, base),
+    fetchRecentAttendees(accountId).then((contacts): SourceSync => ({ contacts }))
   ])
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected")
+  if (failures.length === results.length) throw failures[0].reason
+  failures.forEach(failure => console.warn("Contact source unavailable", failure.reason))
+
+  const sourceNames: ContactSource[] = ["connections", "otherContacts", "attendees"]
+  const sources = {} as Record<ContactSource, Contact[]>
+  const syncTokens: Partial<Record<PeopleSource, string>> = {}
+  sourceNames.forEach((source, i) => {
+    const result = results[i]
+    const synced: SourceSync =
+      result.status === "fulfilled"
+        ? result.value
+        : { contacts: previous?.sources?.[source] || [], syncToken: previous?.syncTokens?.[source as PeopleSource] }
+    sources[source] = synced.contacts
+    if (synced.syncToken) syncTokens[source as PeopleSource] = synced.syncToken
+  })
+
+  return {
+    data: mergeSources(sources),
+    timestamp: now,
+    fullSyncAt: fullSync ? now : previous?.fullSyncAt ?? now,
+    sources,
+    syncTokens
+  }
+}
 
+function mergeSources(sources: Record<ContactSource, Contact[]>): Contact[] {
   // Merge and deduplicate by email
   const map = new Map<string, Contact>()
 
   // 1. Prioritize explicit connections (People API)
-  connections.forEach(c => map.set(c.email, c))
+  sources.connections.forEach(c => map.set(c.email, c))
 
   // 2. Add 'other contacts' (frequent contacts)
-  otherContacts.forEach(c => {
+  sources.otherContacts.forEach(c => {
     if (!map.has(c.email)) {
       map.set(c.email, c)
     }
   })
 
-  // 3. Add recent meeting attendees (Calendar API)
-  recentAttendees.forEach(c => {
-    if (!map.has(c.email)) {
-      map.set(c.email, c)
-    }
+  // 3. Add recent meeting attendees (Calendar API); people already known
+  // keep their details and gain the meeting activity
+  sources.attendees.forEach(c => {
+    const known = map.get(c.email)
+    map.set(c.email, known ? { ...known, interactions: c.interactions, lastContacted: c.lastContacted } : c)
   })
 
   return Array.from(map.values())
@@ -78,123 +220,136 @@ async function fetchAllContacts(token: string): Promise<Contact[]> {
 export async function searchContacts(query: string): Promise<Contact[]> {
   if (!query || query.length < 2) return []
 
-  try {
-    const token = await getAuthToken(false)
-    const url = `https://people.googleapis.com/v1/otherContacts:search?query=${encodeURIComponent(query)}&readMask=names,emailAddresses,photos`
+  const data = await googleRequest<{ results?: { person: any }[] }>(`${PEOPLE_API}/otherContacts:search`, {
+    query: { query, readMask: PERSON_FIELDS },
+    interactive: false,
+    errorMessage: "Failed to search contacts"
+  })
 
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${token}` }
-    })
+  return toContacts((data?.results || []).map(result => result.person))
+}
 
-    if (!res.ok) return []
-
-    const data = await res.json()
-    if (!data.results) return []
-
-    return data.results.map((result: any) => {
-      const item = result.person
-      const name = item.names?.[0]?.displayName || item.emailAddresses?.[0]?.value || "Unknown"
-      const email = item.emailAddresses?.[0]?.value
-      const photoUrl = item.photos?.[0]?.url
-
-      if (!email) return null
-
-      return {
-        id: item.resourceName || email,
-        name,
-        email,
-        photoUrl
-      }
-    }).filter((c: any) => c !== null) as Contact[]
-  } catch (e) {
-    console.warn("Error searching contacts", e)
-    return []
+/**
+ * Finds the contact a bare @mention refers to: an exact email, or a unique
+ * match on full name, first name or name prefix.
+ */
+export function resolveContact(query: string, contacts: Contact[]): Contact | undefined {
+  const q = query.trim().toLowerCase()
+  if (!q) return undefined
+
+  const byEmail = contacts.find(c => c.email.toLowerCase() === q)
+  if (byEmail) return byEmail
+
+  const matchers = [
+    (c: Contact) => c.name.toLowerCase() === q,
+    (c: Contact) => c.name.toLowerCase().split(/\s+/)[0] === q,
+    (c: Contact) => c.name.toLowerCase().startsWith(q)
+  ]
+  for (const matches of matchers) {
+    const found = contacts.filter(matches)
+    if (found.length === 1) return found[0]
+    if (found.length > 1) return undefined
   }
+  return undefined
 }
 
-async function fetchConnections(token: string): Promise<Contact[]> {
-  const url = "https://people.googleapis.com/v1/people/me/connections?personFields=names,emailAddresses,photos&pageSize=1000"
-  return fetchPeople(url, token)
-}
+/**
+ * Pages through a People API list. With a sync token from the previous
+ * sync only the changes are fetched and applied to the previous contacts;
+ * an expired token falls back to a full fetch.
+ */
+async function syncPeople(source: PeopleSource, accountId: string | undefined, previous?: ContactsCache): Promise<SourceSync> {
+  const { url, itemsKey, fieldsParam, label } = PEOPLE_SOURCES[source]
+  const fetchPeople = (syncToken?: string) =>
+    fetchPages<any>(url, itemsKey, {
+      accountId,
+      query: { [fieldsParam]: PERSON_FIELDS, pageSize: 1000, requestSyncToken: true, syncToken },
+      interactive: false,
+      errorMessage: `Failed to load ${label}`
+    }, 100)
+
+  const syncToken = previous?.syncTokens?.[source]
+  if (syncToken) {
+    try {
+      const { items, nextSyncToken } = await fetchPeople(syncToken)
+      console.debug(`Synced ${items.length} changed ${label}`)
+      return { contacts: applyChanges(previous.sources?.[source] || [], items), syncToken: nextSyncToken }
+    } catch (e) {
+      // Expired sync tokens are rejected with 400 or 410
+      if (!(e instanceof InvalidArgumentError || e instanceof NotFoundError)) throw e
+      console.debug(`Sync token for ${label} expired; fetching all`)
+    }
+  }
 
-async function fetchOtherContacts(token: string): Promise<Contact[]> {
-  const url = "https://people.googleapis.com/v1/otherContacts?readMask=names,emailAddresses,photos&pageSize=1000"
-  return fetchPeople(url, token, true)
+  const { items, nextSyncToken } = await fetchPeople()
+  return { contacts: toContacts(items.filter(person => !person.metadata?.deleted)), syncToken: nextSyncToken }
 }
 
-async function fetchRecentAttendees(token: string): Promise<Contact[]> {
-  try {
-    // Fetch last 30 days of events
-    const now = new Date();
-    const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-    const url = `https://www.googleapis.com/calendar/v3/calendars/primary/events?orderBy=startTime&singleEvents=true&timeMin=${thirtyDaysAgo.toISOString()}&maxResults=250`;
+// Replaces changed people and drops deleted ones
+function applyChanges(contacts: Contact[], changes: any[]): Contact[] {
+  const changed = new Set(changes.map(person => person.resourceName))
+  const kept = contacts.filter(c => !changed.has(c.id))
+  return [...kept, ...toContacts(changes.filter(person => !person.metadata?.deleted))]
+}
 
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${token}` }
-    })
+async function fetchRecentAttendees(accountId?: string): Promise<Contact[]> {
+  // Events of the last 90 days and the coming 30
+  const now = Date.now()
+  const timeMin = new Date(now - 90 * 24 * 60 * 60 * 1000)
+  const timeMax = new Date(now + 30 * 24 * 60 * 60 * 1000)
+
+  const events = await fetchAllPages<any>(EVENTS_URL, "items", {
+    accountId,
+    query: { singleEvents: true, timeMin: timeMin.toISOString(), timeMax: timeMax.toISOString(), maxResults: 250 },
+    interactive: false,
+    errorMessage: "Failed to load recent attendees"
+  })
 
-    if (!res.ok) return []
-
-    const data = await res.json()
-    if (!data.items) return []
-
-    const contactsMap = new Map<string, Contact>()
-
-    data.items.forEach((event: any) => {
-      if (event.attendees) {
-        event.attendees.forEach((att: any) => {
-          if (att.email && !att.self && !att.resource) {
-            if (!contactsMap.has(att.email)) {
-              contactsMap.set(att.email, {
-                id: att.email,
-                name: att.displayName || att.email.split('@')[0],
-                email: att.email,
-                // Calendar API doesn't give photos easily, leave undefined
-              })
-            }
+  const contactsMap = new Map<string, Contact>()
+
+  events.forEach((event: any) => {
+    // Upcoming meetings count as contact now
+    const start = Date.parse(event.start?.dateTime || event.start?.date)
+    const when = Math.min(Number.isNaN(start) ? now : start, now)
+    if (event.attendees) {
+      event.attendees.forEach((att: any) => {
+        if (att.email && !att.self && !att.resource) {
+          const known = contactsMap.get(att.email)
+          if (known) {
+            known.interactions++
+            known.lastContacted = Math.max(known.lastContacted, when)
+          } else {
+            contactsMap.set(att.email, {
+              id: att.email,
+              name: att.displayName || att.email.split('@')[0],
+              email: att.email,
+              // Calendar API doesn't give photos easily, leave undefined
+              interactions: 1,
+              lastContacted: when
+            })
           }
-        })
-      }
-    })
-
-    return Array.from(contactsMap.values())
+        }
+      })
+    }
+  })
 
-  } catch (e) {
-    console.warn("Error fetching recent attendees", e)
-    return []
-  }
+  return Array.from(contactsMap.values())
 }
 
-async function fetchPeople(url: string, token: string, isOther = false): Promise<Contact[]> {
-  try {
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${token}` }
-    })
+// People API persons to contacts; people without an email are skipped
+function toContacts(people: any[]): Contact[] {
+  return people.map((item: any) => {
+    const name = item.names?.[0]?.displayName || item.emailAddresses?.[0]?.value || "Unknown"
+    const email = item.emailAddresses?.[0]?.value
+    const photoUrl = item.photos?.[0]?.url
 
-    if (!res.ok) return []
+    if (!email) return null
 
-    const data = await res.json()
-    const list = isOther ? data.otherContacts : data.connections
-
-    if (!list) return []
-
-    return list.map((item: any) => {
-      const name = item.names?.[0]?.displayName || item.emailAddresses?.[0]?.value || "Unknown"
-      const email = item.emailAddresses?.[0]?.value
-      const photoUrl = item.photos?.[0]?.url
-
-      if (!email) return null
-
-      return {
-        id: item.resourceName || email,
-        name,
-        email,
-        photoUrl
-      }
-    }).filter((c: any) => c !== null) as Contact[]
-  } catch (e) {
-    console.warn("Error fetching specific contact list", e)
-    return []
-  }
+    return {
+      id: item.resourceName || email,
+      name,
+      email,
+      photoUrl
+    }
+  }).filter((c: any) => c !== null) as Contact[]
 }
@@ -0,0 +1,28 @@
+// Local date helpers for the Calendar API's `date` / `dateTime` fields.
+
+export const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+/** "YYYY-MM-DD" in local time, as used by all-day `start.date` / `end.date`. */
+export const toLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+/**
+ * Formats a date as a local ISO 8601 date-time without offset, the form
+ * the Calendar API expects alongside an explicit `timeZone`.
+ */
+export const toLocalDateTime = (date: Date) =>
+  `${toLocalDate(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}:00`
+
+/** Parses "YYYY-MM-DD" as local midnight (Date.parse would use UTC). */
+export const parseLocalDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const shiftDate = (value: string, days: number) => {
+  const date = parseLocalDate(value)
+  date.setDate(date.getDate() + days)
+  return toLocalDate(date)
+}
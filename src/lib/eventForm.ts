@@ -0,0 +1,133 @@
+import { z } from "zod"
+
+import { isAllDay, type CalendarEvent } from "./calendar"
+import { shiftDate, toLocalDateTime } from "./dates"
+
+// Form state for editing a proposed event in place before it is created.
+
+export interface EventFormValues {
+  title: string
+  allDay: boolean
+  // "YYYY-MM-DDTHH:mm" (datetime-local), or "YYYY-MM-DD" when all-day.
+  // All-day `end` is the last day, inclusive.
+  start: string
+  end: string
+  location: string
+  description: string
+  attendees: string[]
+}
+
+export type EventFormErrors = Partial<Record<keyof EventFormValues, string>>
+
+const DATE_INPUT_RE = /^\d{4}-\d{2}-\d{2}$/
+const DATE_TIME_INPUT_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/
+
+const eventFormSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required"),
+    allDay: z.boolean(),
+    start: z.string(),
+    end: z.string(),
+    location: z.string(),
+    description: z.string(),
+    attendees: z.array(z.email("Not a valid email"))
+  })
+  .superRefine((values, ctx) => {
+    const pattern = values.allDay ? DATE_INPUT_RE : DATE_TIME_INPUT_RE
+    for (const field of ["start", "end"] as const) {
+      if (!pattern.test(values[field])) {
+        ctx.addIssue({
+          code: "custom",
+          path: [field],
+          message: values.allDay ? "Pick a date" : "Pick a date and time"
+        })
+      }
+    }
+    if (!pattern.test(values.start) || !pattern.test(values.end)) return
+
+    // Dates compare lexically; an all-day event may end on the day it starts
+    const valid = values.allDay
+      ? values.end >= values.start
+      : values.end > values.start
+    if (!valid) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["end"],
+        message: "End must be after start"
+      })
+    }
+  })
+
+const toInputDateTime = (value: string) =>
+  toLocalDateTime(new Date(value)).slice(0, 16)
+
+export const toFormValues = (event: CalendarEvent): EventFormValues => {
+  const allDay = isAllDay(event)
+  return {
+    title: event.summary,
+    allDay,
+    start: allDay ? event.start.date : toInputDateTime(event.start.dateTime),
+    end: allDay
+      ? shiftDate(event.end.date || event.start.date, -1)
+      : toInputDateTime(event.end.dateTime),
+    location: event.location || "",
+    description: event.description || "",
+    attendees: (event.attendees || []).map((att) => att.email)
+  }
+}
+
+/**
+ * Validates edited values and merges them into `event`. Fields the form
+ * doesn't cover (recurrence, attendee names) are kept.
+ */
+export const applyFormValues = (
+  event: CalendarEvent,
+  values: EventFormValues,
+  timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+): { event?: CalendarEvent; errors: EventFormErrors } => {
+  const result = eventFormSchema.safeParse(values)
+  if (!result.success) {
+    const errors: EventFormErrors = {}
+    for (const issue of result.error.issues) {
+      const field = issue.path[0] as keyof EventFormValues
+      // Attendee issues point at an index; report them on the field
+      errors[field] ??= issue.message
+    }
+    return { errors }
+  }
+
+  const data = result.data
+  const previous = new Map(
+    (event.attendees || []).map((att) => [att.email, att])
+  )
+
+  return {
+    event: {
+      ...event,
+      summary: data.title.trim(),
+      location: data.location.trim() || undefined,
+      description: data.description.trim() || undefined,
+      attendees: data.attendees.length
+        ? data.attendees.map((email) => {
+            // Attendees already there keep their name and @group
+            const { displayName, group } = previous.get(email) || {}
+            return {
+              email,
+              ...(displayName ? { displayName } : {}),
+              ...(group ? { group } : {})
+            }
+          })
+        : undefined,
+      ...(data.allDay
+        ? {
+            start: { date: data.start },
+            end: { date: shiftDate(data.end, 1) }
+          }
+        : {
+            start: { dateTime: `${data.start}:00`, timeZone },
+            end: { dateTime: `${data.end}:00`, timeZone }
+          })
+    },
+    errors: {}
+  }
+}
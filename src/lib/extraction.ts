@@ -0,0 +1,319 @@
+import { z } from "zod"
+
+import {
+  calendarName,
+  matchCalendar,
+  type CalendarEvent,
+  type CalendarListEntry
+} from "./calendar"
+import type { Contact } from "./contacts"
+import { shiftDate } from "./dates"
+import { reconcileEventTimes } from "./parser"
+import { normalizeRRule, parseRRule } from "./recurrence"
+import { DEFAULT_USER_CONFIG, type UserConfig } from "./storage"
+
+// Shape the model is asked to produce. Kept as a string for the prompt.
+export const SCHEMA_DEF = `
+{
+  "events": [
+    {
+      "title": "string",
+      "start": "ISO 8601 string (e.g., 2024-01-01T10:00:00, or 2024-01-01 when allDay)",
+      "end": "ISO 8601 string",
+      "allDay": "boolean (optional)",
+      "location": "string (optional)",
+      "description": "string (optional)",
+      "attendees": ["email1@example.com", "email2@example.com"],
+      "people": ["names of people to invite who have no email in the text (optional)"],
+      "recurrence": "RFC 5545 RRULE string (optional, e.g., RRULE:FREQ=WEEKLY;BYDAY=MO)",
+      "calendar": "string (optional, name of one of the available calendars)"
+    }
+  ]
+}
+`
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2
+
+export const isoDateTime = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), {
+    message: "must be a valid ISO 8601 date-time"
+  })
+
+export const extractedEventSchema = z
+  .object({
+    title: z.string().trim().min(1, "must not be empty"),
+    start: isoDateTime,
+    end: isoDateTime,
+    allDay: z.boolean().nullish(),
+    location: z.string().nullish(),
+    description: z.string().nullish(),
+    attendees: z.array(z.email()).nullish(),
+    people: z.array(z.string().trim().min(1)).nullish(),
+    calendar: z.string().nullish(),
+    recurrence: z
+      .string()
+      .nullish()
+      .superRefine((value, ctx) => {
+        if (!value) return
+        const { error } = parseRRule(value)
+        if (error) {
+          ctx.addIssue({ code: "custom", message: `RRULE ${error}` })
+        }
+      })
+  })
+  .superRefine((evt, ctx) => {
+    if (evt.allDay) {
+      // Both are inclusive days; only the date part matters
+      if (evt.end.slice(0, 10) < evt.start.slice(0, 10)) {
+        ctx.addIssue({
+          code: "custom",
+          message: "must not be before 'start'",
+          path: ["end"]
+        })
+      }
+    } else if (Date.parse(evt.end) <= Date.parse(evt.start)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "must be after 'start'",
+        path: ["end"]
+      })
+    }
+  })
+
+export const extractionResultSchema = z.object({
+  events: z
+    .array(extractedEventSchema)
+    .min(1, "must contain at least one event")
+})
+
+export type ExtractedEvent = z.infer<typeof extractedEventSchema>
+
+export interface ValidationResult {
+  events: ExtractedEvent[]
+  issues: string[]
+}
+
+export type PromptFn = (input: string) => Promise<string>
+
+export interface ExtractionOptions {
+  maxRepairAttempts?: number
+  timeZone?: string
+  // Calendars the model may pick from when the request names one
+  calendars?: CalendarListEntry[]
+  // People the user picked from their contacts; they're added as attendees
+  // after extraction, so the model only needs to know who they are
+  invited?: Contact[]
+}
+
+export class ExtractionError extends Error {
+  issues: string[]
+  rawOutput: string
+
+  constructor(issues: string[], rawOutput: string) {
+    super(`Failed to parse event: ${issues[0] || "unknown error"}`)
+    this.name = "ExtractionError"
+    this.issues = issues
+    this.rawOutput = rawOutput
+  }
+}
+
+const formatDuration = (minutes: number) =>
+  minutes % 60 === 0
+    ? `${minutes / 60} hour${minutes === 60 ? "" : "s"}`
+    : `${minutes} minutes`
+
+/** The extraction instructions, with the user's defaults for missing details. */
+export const buildSystemPrompt = ({
+  defaultDurationMinutes,
+  defaultDay
+}: Pick<
+  UserConfig,
+  "defaultDurationMinutes" | "defaultDay"
+> = DEFAULT_USER_CONFIG) => `You are a helpful calendar assistant.
+        The current time and timezone is ${new Date().toTimeString()}.
+        The current date is ${new Date().toDateString()}.
+
+        INSTRUCTIONS:
+        1. Extract ONE OR MORE event details from the user's request.
+        2. Extract attendees from email addresses written in the request. Put people named without an email ("lunch with Ryan and Priya") in 'people', one name each; never invent emails for them. People listed as already invited are added for you; leave them out of both.
+        3. Respond ONLY with valid JSON matching this structure:
+        ${SCHEMA_DEF}
+        4. Rules:
+        ${"   "}- 'start' and 'end' MUST be valid ISO 8601 strings.
+        ${"   "}- If no end time, assume ${formatDuration(defaultDurationMinutes)}.
+        ${"   "}- For whole-day events (birthdays, holidays, trips, offsites, or a day-long occasion with no time mentioned), set 'allDay' to true and give 'start' and 'end' as dates (YYYY-MM-DD). 'end' is the LAST day of the event, the same as 'start' for a single day.
+        ${"   "}- If no date, assume ${defaultDay}.
+        ${"   "}- Infer relative dates from today.
+        ${"   "}- If the event repeats ("every Monday", "weekly", "daily until Friday"), set 'recurrence' to an RRULE and use the first occurrence for 'start' and 'end'. Otherwise omit 'recurrence'.
+        ${"   "}- If the request names a calendar ("on the team calendar"), set 'calendar' to the matching name from the available calendars. Otherwise omit 'calendar'.
+        ${"   "}- RRULE supports FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, and either COUNT or UNTIL (YYYYMMDD).
+        ${"   "}- Do not add any markdown formatting (no markdown code blocks). Just the raw JSON string.
+        `
+
+/**
+ * Best-effort JSON recovery: strips code fences and surrounding prose, and
+ * drops trailing commas, which small models emit surprisingly often.
+ */
+const parseLooseJson = (raw: string): unknown => {
+  let text = raw.replace(/```(?:json)?\s*|\s*```/g, "").trim()
+
+  const first = text.indexOf("{")
+  const last = text.lastIndexOf("}")
+  if (first !== -1 && last > first) {
+    text = text.slice(first, last + 1)
+  }
+
+  text = text.replace(/,\s*([}\]])/g, "$1")
+  return JSON.parse(text)
+}
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) => {
+    const path = issue.path.join(".")
+    return path ? `${path}: ${issue.message}` : issue.message
+  })
+
+/**
+ * Parses raw model output and validates it against `schema`. Returns the
+ * field-level issues instead of throwing so callers can feed them back to
+ * the model.
+ */
+export const validateJson = <T>(
+  raw: string,
+  schema: z.ZodType<T>
+): { data?: T; issues: string[] } => {
+  let json: unknown
+  try {
+    json = parseLooseJson(raw)
+  } catch (e: any) {
+    return { issues: [`Response is not valid JSON (${e.message})`] }
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    return { issues: formatIssues(result.error) }
+  }
+  return { data: result.data, issues: [] }
+}
+
+export const validateModelOutput = (raw: string): ValidationResult => {
+  const { data, issues } = validateJson(raw, extractionResultSchema)
+  return { events: data?.events || [], issues }
+}
+
+// The remote provider keeps no conversation, so the original message, with
+// its context, and the schema are restated
+const buildRepairPrompt = (
+  message: string,
+  raw: string,
+  issues: string[],
+  schemaDef: string
+) => `Your previous response could not be used.
+
+Original message:
+${message}
+
+Your response:
+${raw}
+
+Problems:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Respond again with ONLY the corrected JSON matching this structure:
+${schemaDef}`
+
+export const toCalendarEvent = (
+  evt: ExtractedEvent,
+  timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+): CalendarEvent => ({
+  summary: evt.title.trim(),
+  description: evt.description || undefined,
+  location: evt.location || undefined,
+  attendees: evt.attendees?.length
+    ? evt.attendees.map((email) => ({ email }))
+    : undefined,
+  attendeeNames: evt.people?.length ? evt.people : undefined,
+  recurrence: evt.recurrence ? [normalizeRRule(evt.recurrence)] : undefined,
+  ...(evt.allDay
+    ? {
+        // The API's all-day end date is exclusive
+        start: { date: evt.start.slice(0, 10) },
+        end: { date: shiftDate(evt.end, 1) }
+      }
+    : {
+        start: { dateTime: evt.start, timeZone },
+        end: { dateTime: evt.end, timeZone }
+      })
+})
+
+/**
+ * Sends `message` to the model and validates the answer against `schema`.
+ * Invalid output is sent back to the model together with `message`, the
+ * validation errors and `schemaDef`, the structure the model was asked
+ * for, up to `maxRepairAttempts` times, before giving up with an
+ * ExtractionError.
+ */
+export const promptForJson = async <T>(
+  prompt: PromptFn,
+  message: string,
+  schema: z.ZodType<T>,
+  schemaDef: string,
+  maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS
+): Promise<T> => {
+  let raw = await prompt(message)
+
+  for (let attempt = 0; ; attempt++) {
+    console.debug("Raw Model Output:", raw)
+    const { data, issues } = validateJson(raw, schema)
+
+    if (issues.length === 0) {
+      return data
+    }
+
+    console.warn("Invalid model output", issues)
+    if (attempt >= maxRepairAttempts) {
+      throw new ExtractionError(issues, raw)
+    }
+
+    raw = await prompt(buildRepairPrompt(message, raw, issues, schemaDef))
+  }
+}
+
+/**
+ * Prompts the model for events, repairing invalid output (see
+ * `promptForJson`). Start/end times are cross-checked against the
+ * rule-based parser.
+ */
+export const extractEvents = async (
+  prompt: PromptFn,
+  input: string,
+  options: ExtractionOptions = {}
+): Promise<CalendarEvent[]> => {
+  const calendars = options.calendars || []
+  const invited = options.invited || []
+  const context = [
+    calendars.length &&
+      `Available calendars: ${calendars.map((calendar) => JSON.stringify(calendarName(calendar))).join(", ")}`,
+    invited.length &&
+      `Already invited: ${invited.map((contact) => contact.name || contact.email).join(", ")}`
+  ].filter(Boolean)
+  const message = [...context, `User Request: ${input}`].join("\n\n")
+
+  const result = await promptForJson(
+    prompt,
+    message,
+    extractionResultSchema,
+    SCHEMA_DEF,
+    options.maxRepairAttempts
+  )
+
+  return reconcileEventTimes(
+    result.events.map((evt) => {
+      const event = toCalendarEvent(evt, options.timeZone)
+      const calendar = matchCalendar(evt.calendar, calendars)
+      return calendar ? { ...event, calendarId: calendar.id } : event
+    }),
+    input
+  )
+}
@@ -0,0 +1,447 @@
+import {
+  cacheToken,
+  clearCachedToken,
+  findAccount,
+  getAccounts,
+  getCachedToken,
+  launchGoogleAuth,
+  resolveAccount,
+  saveAccount,
+  setActiveAccount,
+  type Account
+} from "./accounts"
+import { sendToBackground } from "./messages"
+
+// The one way Lanner talks to Google APIs. Requests act as an account,
+// refresh its token once on 401, back off on rate limits and server
+// errors, and fail with typed errors instead of empty results.
+
+export type GoogleApiErrorKind =
+  | "network"
+  | "unauthenticated"
+  | "permission"
+  | "quota"
+  | "not_found"
+  | "invalid_argument"
+  | "server"
+  | "unknown"
+
+export class GoogleApiError extends Error {
+  kind: GoogleApiErrorKind
+  // HTTP status; 0 when no response arrived
+  status: number
+  // Google's error reason, e.g. "rateLimitExceeded"
+  reason?: string
+
+  constructor(
+    message: string,
+    kind: GoogleApiErrorKind,
+    status: number,
+    reason?: string
+  ) {
+    super(message)
+    this.name = "GoogleApiError"
+    this.kind = kind
+    this.status = status
+    this.reason = reason
+  }
+}
+
+export class QuotaError extends GoogleApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, "quota", status, reason)
+    this.name = "QuotaError"
+  }
+}
+
+export class PermissionError extends GoogleApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, "permission", status, reason)
+    this.name = "PermissionError"
+  }
+}
+
+export class NotFoundError extends GoogleApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, "not_found", status, reason)
+    this.name = "NotFoundError"
+  }
+}
+
+export class InvalidArgumentError extends GoogleApiError {
+  constructor(message: string, status: number, reason?: string) {
+    super(message, "invalid_argument", status, reason)
+    this.name = "InvalidArgumentError"
+  }
+}
+
+export interface GoogleRequestOptions {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE"
+  // Undefined values are left out
+  query?: Record<string, string | number | boolean | undefined>
+  // Sent as JSON
+  body?: unknown
+  // Email of the account to act as; defaults to the active account
+  accountId?: string
+  // Use this token as is, e.g. while signing in; it isn't refreshed on 401
+  token?: string
+  // Whether getting a token may prompt the user; defaults to true
+  interactive?: boolean
+  // Message for failures the API doesn't describe
+  errorMessage?: string
+}
+
+const MAX_RETRIES = 3
+const BASE_BACKOFF = 500
+const MAX_BACKOFF = 8000
+// Longer waits are left to the caller (e.g. the outbox). The CREATE_EVENT
+// message timeout allows for MAX_RETRIES of these
+const MAX_RETRY_AFTER = 30 * 1000
+
+const QUOTA_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+  "quotaExceeded",
+  "dailyLimitExceeded",
+  "RESOURCE_EXHAUSTED"
+])
+// Quota reasons that clear up within seconds
+const RATE_LIMIT_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+  "RESOURCE_EXHAUSTED"
+])
+
+/** Builds the typed error for a failed response from its JSON error body. */
+export const toGoogleApiError = async (
+  response: Response,
+  fallback: string
+): Promise<GoogleApiError> => {
+  const body = await response.json().catch(() => ({}))
+  const message = body.error?.message || body.error_description || fallback
+  const reason: string | undefined =
+    body.error?.errors?.[0]?.reason || body.error?.status
+  const { status } = response
+
+  if (status === 429 || (status === 403 && QUOTA_REASONS.has(reason))) {
+    return new QuotaError(message, status, reason)
+  }
+  if (status === 403) return new PermissionError(message, status, reason)
+  if (status === 404 || status === 410) {
+    return new NotFoundError(message, status, reason)
+  }
+  if (status === 400) return new InvalidArgumentError(message, status, reason)
+  if (status === 401) {
+    return new GoogleApiError(message, "unauthenticated", status, reason)
+  }
+  if (status >= 500) {
+    return new GoogleApiError(message, "server", status, reason)
+  }
+  return new GoogleApiError(message, "unknown", status, reason)
+}
+
+/** Failures that may go away on their own: offline, overloaded, rate limited. */
+export const isTransientError = (error: unknown) =>
+  error instanceof GoogleApiError &&
+  (error.kind === "network" ||
+    error.kind === "server" ||
+    error.status === 429 ||
+    RATE_LIMIT_REASONS.has(error.reason))
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Retry-After is either seconds or an HTTP date; otherwise exponential
+// backoff with jitter
+const retryDelay = (response: Response, attempt: number) => {
+  const header = response.headers.get("Retry-After")
+  if (header) {
+    const seconds = Number(header)
+    if (!Number.isNaN(seconds)) return seconds * 1000
+    const date = Date.parse(header)
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+  }
+  const backoff = Math.min(BASE_BACKOFF * 2 ** attempt, MAX_BACKOFF)
+  return backoff / 2 + Math.random() * (backoff / 2)
+}
+
+const buildUrl = (url: string, query: GoogleRequestOptions["query"] = {}) => {
+  const target = new URL(url)
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) target.searchParams.set(key, String(value))
+  }
+  return target.toString()
+}
+
+/**
+ * Sends an authorized request and returns the successful response. Throws
+ * a GoogleApiError (or one of its subclasses) otherwise.
+ */
+export const googleFetch = async (
+  url: string,
+  options: GoogleRequestOptions = {}
+): Promise<Response> => {
+  const {
+    method = "GET",
+    query,
+    body,
+    accountId,
+    interactive = true,
+    errorMessage = "Google API request failed"
+  } = options
+  const target = buildUrl(url, query)
+
+  let token = options.token || (await getAuthToken(interactive, accountId))
+  let canRefresh = !options.token
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetch(target, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {})
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      })
+    } catch (e) {
+      // fetch only rejects when no response arrived
+      throw new GoogleApiError(
+        `Couldn't reach Google (${e instanceof Error ? e.message : e})`,
+        "network",
+        0
+      )
+    }
+
+    if (response.ok) return response
+
+    if (response.status === 401 && canRefresh) {
+      console.log("Token invalid/expired. Refreshing...")
+      canRefresh = false
+      await invalidateToken(token, accountId)
+      token = await getAuthToken(interactive, accountId)
+      continue
+    }
+
+    const delay = retryDelay(response, attempt)
+    const error = await toGoogleApiError(response, errorMessage)
+    if (
+      isTransientError(error) &&
+      attempt < MAX_RETRIES &&
+      delay <= MAX_RETRY_AFTER
+    ) {
+      console.warn(
+        `Retrying ${method} ${url} in ${Math.round(delay)} ms`,
+        error
+      )
+      await sleep(delay)
+      continue
+    }
+
+    console.error(error)
+    throw error
+  }
+}
+
+/** `googleFetch` returning the parsed JSON body (undefined when empty). */
+export const googleRequest = async <T>(
+  url: string,
+  options: GoogleRequestOptions = {}
+): Promise<T> => {
+  const response = await googleFetch(url, options)
+  const text = await response.text()
+  return text ? JSON.parse(text) : undefined
+}
+
+export interface PagedResult<T> {
+  items: T[]
+  // Set by sync-capable lists on their last page
+  nextSyncToken?: string
+}
+
+/**
+ * Follows `nextPageToken` and collects the `itemsKey` list of every page,
+ * up to `maxPages` pages.
+ */
+export const fetchPages = async <T>(
+  url: string,
+  itemsKey: string,
+  options: GoogleRequestOptions = {},
+  maxPages = 20
+): Promise<PagedResult<T>> => {
+  const items: T[] = []
+  let pageToken: string | undefined
+  let nextSyncToken: string | undefined
+
+  for (let page = 0; page < maxPages; page++) {
+    const data = await googleRequest<Record<string, any>>(url, {
+      ...options,
+      query: { ...options.query, pageToken }
+    })
+    items.push(...(data?.[itemsKey] || []))
+    nextSyncToken = data?.nextSyncToken
+    pageToken = data?.nextPageToken
+    if (!pageToken) break
+  }
+  return { items, nextSyncToken }
+}
+
+export const fetchAllPages = async <T>(
+  url: string,
+  itemsKey: string,
+  options: GoogleRequestOptions = {},
+  maxPages = 20
+): Promise<T[]> => (await fetchPages<T>(url, itemsKey, options, maxPages)).items
+
+// --- Auth ---
+
+const USER_INFO_URL = "https://www.googleapis.com/oauth2/v2/userinfo"
+const TOKEN_CHECK_URL =
+  "https://www.googleapis.com/calendar/v3/calendars/primary/events"
+
+const validateToken = async (token: string): Promise<boolean> => {
+  try {
+    await googleFetch(TOKEN_CHECK_URL, { token, query: { maxResults: 1 } })
+    return true
+  } catch (e) {
+    console.warn("Token validation failed", e)
+    return false
+  }
+}
+
+const removeCachedChromeToken = (token: string) =>
+  new Promise<void>((resolve) => {
+    chrome.identity.removeCachedAuthToken({ token }, () => resolve())
+  })
+
+/**
+ * Access token for `accountId`, or for the active account when omitted.
+ * Linked accounts authorize through the OAuth web flow, Chrome's own
+ * account through chrome.identity.
+ */
+export const getAuthToken = async (
+  interactive: boolean = true,
+  accountId?: string
+): Promise<string> => {
+  // 1. Check Cache
+  const account = await resolveAccount(accountId)
+  const cachedToken = await getCachedToken(account)
+  if (cachedToken) {
+    console.debug("Using cached token")
+    return cachedToken
+  }
+
+  // 2. Fetch New Token
+  if (typeof chrome.identity === "undefined") {
+    // Fallback: Delegate to Background Script (e.g. from Content Script)
+    return sendToBackground("GET_AUTH_TOKEN", { interactive, accountId })
+  }
+
+  if (account?.source === "linked") {
+    const token = await launchGoogleAuth({
+      interactive,
+      loginHint: account.email
+    })
+    await cacheToken(account, token)
+    return token
+  }
+
+  const getToken = (isInteractive: boolean): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      chrome.identity.getAuthToken({ interactive: isInteractive }, (token) => {
+        if (chrome.runtime.lastError || !token) {
+          reject(chrome.runtime.lastError?.message || "No token received")
+        } else {
+          resolve(token)
+        }
+      })
+    })
+  }
+
+  let token = await getToken(interactive)
+
+  // Validate the token to ensure we have correct permissions
+  if (!(await validateToken(token))) {
+    console.warn(
+      "Token invalid, removing from cache and retrying if interactive"
+    )
+    await removeCachedChromeToken(token)
+
+    if (!interactive) throw new Error("Token invalid")
+
+    // Retry with interactive flow
+    token = await getToken(true)
+    if (!(await validateToken(token))) {
+      throw new Error("Token still invalid after refresh")
+    }
+  }
+
+  // Cache the new validated token
+  await cacheToken(account, token)
+  await registerChromeAccount(token).catch((e) =>
+    console.warn("Failed to load account profile", e)
+  )
+  return token
+}
+
+/** Forgets the cached token so the next request fetches a fresh one. */
+export const clearTokenCache = async (accountId?: string) => {
+  await clearCachedToken(await resolveAccount(accountId))
+}
+
+const invalidateToken = async (token: string, accountId?: string) => {
+  await clearTokenCache(accountId)
+  // Chrome keeps its own cache of identity tokens
+  if (typeof chrome.identity !== "undefined") {
+    await removeCachedChromeToken(token)
+  }
+}
+
+const fetchProfile = async (
+  token: string
+): Promise<Omit<Account, "source">> => {
+  const data = await googleRequest<{
+    email: string
+    name?: string
+    picture?: string
+  }>(USER_INFO_URL, {
+    token,
+    errorMessage: "Failed to load Google account profile"
+  })
+  return { email: data.email, name: data.name, photoUrl: data.picture }
+}
+
+/** Adds Chrome's account to the list the first time we get a token for it. */
+export const registerChromeAccount = async (token: string) => {
+  const existing = (await getAccounts()).find(
+    (account) => account.source === "chrome"
+  )
+  if (existing) return existing
+
+  const account: Account = { ...(await fetchProfile(token)), source: "chrome" }
+  await saveAccount(account)
+  return account
+}
+
+/** Links another Google account (the user picks it) and makes it active. */
+export const linkAccountDirect = async (): Promise<Account> => {
+  const token = await launchGoogleAuth({ interactive: true })
+  const profile = await fetchProfile(token)
+
+  // Picking Chrome's own account again just switches to it
+  const account = (await findAccount(profile.email)) || {
+    ...profile,
+    source: "linked" as const
+  }
+  await saveAccount(account)
+  if (account.source === "linked") await cacheToken(account, token)
+  await setActiveAccount(account.email)
+  return account
+}
+
+export const linkAccount = async (): Promise<Account> => {
+  if (typeof chrome.identity !== "undefined") return linkAccountDirect()
+
+  // Content scripts have no chrome.identity; the background script links
+  return sendToBackground("LINK_ACCOUNT", null)
+}
@@ -0,0 +1,158 @@
+import { z } from "zod"
+
+import {
+  calendarEventSchema,
+  type CalendarEvent,
+  type ExistingEvent
+} from "./calendar"
+import type { ContactMention } from "./composer"
+import { contactSchema } from "./contacts"
+import type { PromptFn } from "./extraction"
+import type { RequestIntent, RequestPlan } from "./intent"
+import { defineItem, StorageKeys } from "./storage"
+
+// Requests made in the overlay and popup and what came of them, kept on
+// this device. Past requests can be searched and run again, and a misread
+// request can be looked into after the view has closed.
+
+export interface SavedEventRef {
+  id: string
+  summary: string
+  htmlLink?: string
+  calendarId?: string
+  accountId?: string
+}
+
+export interface HistoryEntry {
+  id: string
+  timestamp: number
+  input: string
+  // Contacts picked as chips; restored when the request is run again
+  mentions?: ContactMention[]
+  // Whether the model read the request, or the rule-based parser
+  usedModel: boolean
+  intent?: RequestIntent
+  // Raw model responses in order, including repair attempts
+  modelOutputs?: string[]
+  // Events as planned, before the user reviewed them
+  planned?: CalendarEvent[]
+  // Events the user approved, and the ones created or changed on the
+  // calendar as a result
+  approved?: CalendarEvent[]
+  saved?: SavedEventRef[]
+  errors?: string[]
+}
+
+const MAX_HISTORY = 100
+
+export const historyItem = defineItem<HistoryEntry[]>(
+  StorageKeys.REQUEST_HISTORY,
+  z.array(
+    z.looseObject({
+      id: z.string(),
+      timestamp: z.number(),
+      input: z.string(),
+      mentions: z
+        .array(z.looseObject({ contact: contactSchema, label: z.string() }))
+        .optional(),
+      usedModel: z.boolean(),
+      intent: z.enum(["create", "update", "delete", "schedule"]).optional(),
+      modelOutputs: z.array(z.string()).optional(),
+      planned: z.array(calendarEventSchema).optional(),
+      approved: z.array(calendarEventSchema).optional(),
+      saved: z
+        .array(
+          z.looseObject({
+            id: z.string(),
+            summary: z.string(),
+            htmlLink: z.string().optional(),
+            calendarId: z.string().optional(),
+            accountId: z.string().optional()
+          })
+        )
+        .optional(),
+      errors: z.array(z.string()).optional()
+    })
+  ),
+  []
+)
+
+/** Adds a request to the history, newest first. */
+export const startHistoryEntry = async (
+  input: string,
+  mentions: ContactMention[],
+  usedModel: boolean
+): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    input,
+    mentions: mentions.length ? mentions : undefined,
+    usedModel
+  }
+  await historyItem.update((entries) =>
+    [entry, ...entries].slice(0, MAX_HISTORY)
+  )
+  return entry
+}
+
+/** Changes one entry; entries dropped from the history are left alone. */
+export const updateHistoryEntry = async (
+  id: string,
+  change: (entry: HistoryEntry) => HistoryEntry
+) => {
+  await historyItem.update((entries) =>
+    entries.map((entry) => (entry.id === id ? change(entry) : entry))
+  )
+}
+
+export const clearHistory = () => historyItem.remove()
+
+/** `prompt`, also keeping every response in `outputs`. */
+export const recordingPrompt =
+  (prompt: PromptFn, outputs: string[]): PromptFn =>
+  async (input) => {
+    const output = await prompt(input)
+    outputs.push(output)
+    return output
+  }
+
+/** What a plan proposed: new events, the event to change, or the slot event. */
+export const plannedEvents = (plan: RequestPlan): CalendarEvent[] =>
+  plan.events ||
+  plan.change?.candidates ||
+  (plan.schedule ? [plan.schedule.event] : [])
+
+export const toSavedRef = ({
+  id,
+  summary,
+  htmlLink,
+  calendarId,
+  accountId
+}: ExistingEvent): SavedEventRef => ({
+  id,
+  summary,
+  htmlLink,
+  calendarId,
+  accountId
+})
+
+/**
+ * Entries whose request, event titles or errors contain every word of
+ * `query`, case-insensitively.
+ */
+export const searchHistory = (entries: HistoryEntry[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return entries
+  return entries.filter((entry) => {
+    const text = [
+      entry.input,
+      ...(entry.planned || []).map((event) => event.summary),
+      ...(entry.saved || []).map((event) => event.summary),
+      ...(entry.errors || [])
+    ]
+      .join("\n")
+      .toLowerCase()
+    return words.every((word) => text.includes(word))
+  })
+}
@@ -0,0 +1,639 @@
+import { z } from "zod"
+
+import { resolveAttendeeNames, withContactAttendees } from "./attendees"
+import {
+  isAllDay,
+  LANNER_PREFIX,
+  listEvents,
+  newEventId,
+  type CalendarEvent,
+  type CalendarListEntry,
+  type CalendarTarget,
+  type EventListQuery,
+  type ExistingEvent
+} from "./calendar"
+import {
+  expandMentions,
+  getMentionShortcuts,
+  withMentionAttendees
+} from "./contactGroups"
+import { getContacts, type Contact } from "./contacts"
+import {
+  DATE_ONLY_RE,
+  parseLocalDate,
+  shiftDate,
+  toLocalDate,
+  toLocalDateTime
+} from "./dates"
+import {
+  extractEvents,
+  isoDateTime,
+  promptForJson,
+  type PromptFn
+} from "./extraction"
+import { findCalendarHint, parseCalendarEvents, parseEventText } from "./parser"
+import {
+  isSchedulingRequest,
+  planScheduling,
+  type SchedulingPlan
+} from "./scheduling"
+import { getUserConfig } from "./storage"
+import {
+  applyTemplate,
+  expandTemplateCommands,
+  findTemplates,
+  getTemplates,
+  templateFor,
+  type TemplateMatch
+} from "./templates"
+
+// Tells "create" requests apart from edits and cancellations of events that
+// are already on the calendar, and turns the latter into API patches.
+// "schedule" requests are creates that ask us to find the time.
+
+export type RequestIntent = "create" | "update" | "delete" | "schedule"
+
+// Used when there's no model. The verbs double as nouns in event titles
+// ("Night shift", "Quarterly update", "Change oil"), so a verb only counts
+// where a command starts and when it's followed by what it acts on:
+// "move my …", "cancel the …", "push tomorrow's …". The least ambiguous
+// verbs may also take the event's name directly ("cancel standup"), and so
+// may the others when a new time or a shift follows ("move standup to
+// Friday", "push standup 30 minutes later", "delay standup by 15 minutes").
+const DELETE_VERBS = "cancel|delete|remove|scrap|call off|clear"
+const UPDATE_VERBS =
+  "move|reschedule|push|pull|postpone|delay|shift|bump|rename|change|update|extend|shorten"
+const COMMAND_START =
+  "(?:^\\s*|[.!?;]\\s*|\\b(?:please|can you|could you|need to|want to|have to|let's)\\s+)"
+const TARGET =
+  "\\s+(?:my|the|our|this|that|these|those|[\\p{L}\\p{N}]+['\u2019]s)\\b"
+
+const DELETE_RE = new RegExp(
+  `${COMMAND_START}(?:(?:${DELETE_VERBS})${TARGET}|(?:cancel|delete)\\s+\\S)|\\bcan['\u2019]?t make\\b`,
+  "iu"
+)
+const AMOUNT = "(?:\\d+|an?|half an)\\s*(?:hours?|hrs?|h|minutes?|mins?|m)\\b"
+const SHIFT_BY = `\\bby\\s+${AMOUNT}|\\b${AMOUNT}\\s+(?:later|earlier|back|forward|sooner)\\b`
+const TO_WHEN =
+  "\\bto\\s+(?:\\d|(?:today|tomorrow|tonight|next|noon|midnight)\\b|(?:mon|tues?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?|sun)(?:day)?\\b|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\b)"
+const UPDATE_RE = new RegExp(
+  `${COMMAND_START}(?:(?:${UPDATE_VERBS})${TARGET}|(?:reschedule|postpone)\\s+\\S|(?:${UPDATE_VERBS})\\s+\\S.*?(?:${SHIFT_BY}|${TO_WHEN}))`,
+  "iu"
+)
+
+// Any change or cancel verb, wherever it is
+const CHANGE_VERB_RE = new RegExp(
+  `\\b(?:${DELETE_VERBS}|${UPDATE_VERBS})\\b|\\bcan['\u2019]?t make\\b`,
+  "giu"
+)
+
+const SEARCH_WINDOW_DAYS = 14
+const MAX_CANDIDATES = 5
+
+const STOP_WORDS = new Set([
+  "my",
+  "the",
+  "a",
+  "an",
+  "with",
+  "and",
+  "our",
+  "meeting",
+  "event",
+  "s"
+])
+
+export const CHANGE_SCHEMA_DEF = `
+{
+  "target": {
+    "query": "words identifying the existing event (title or person)",
+    "date": "YYYY-MM-DD (optional, day the event currently is)",
+    "time": "HH:mm (optional, 24h time the event currently starts)"
+  },
+  "changes": {
+    "title": "string (optional, new title)",
+    "date": "YYYY-MM-DD (optional, new day keeping the same time)",
+    "start": "ISO 8601 string (optional, new start)",
+    "end": "ISO 8601 string (optional, new end)",
+    "shiftMinutes": "number (optional, e.g. 30 for 'push 30 minutes later', -15 for 'earlier')",
+    "location": "string (optional)",
+    "description": "string (optional)"
+  }
+}
+`
+
+export const eventChangesSchema = z.object({
+  title: z.string().trim().min(1).nullish(),
+  date: z.string().regex(DATE_ONLY_RE, "must be YYYY-MM-DD").nullish(),
+  start: isoDateTime.nullish(),
+  end: isoDateTime.nullish(),
+  shiftMinutes: z.number().int().nullish(),
+  location: z.string().nullish(),
+  description: z.string().nullish()
+})
+
+export const changeRequestSchema = z.object({
+  target: z.object({
+    query: z.string().trim().min(1, "must not be empty"),
+    date: z.string().regex(DATE_ONLY_RE, "must be YYYY-MM-DD").nullish(),
+    time: z
+      .string()
+      .regex(/^\d{1,2}:\d{2}$/, "must be HH:mm")
+      .nullish()
+  }),
+  changes: eventChangesSchema.nullish()
+})
+
+export type EventChanges = z.infer<typeof eventChangesSchema>
+export type ChangeRequest = z.infer<typeof changeRequestSchema>
+
+export interface PlannedChange {
+  intent: "update" | "delete"
+  candidates: ExistingEvent[]
+  changes: EventChanges
+}
+
+export interface CalendarChoice {
+  // Account new events are created in, and its writable calendars
+  accountId?: string
+  calendars?: CalendarListEntry[]
+  defaultCalendarId?: string
+}
+
+export interface RequestPlan {
+  intent: RequestIntent
+  events?: CalendarEvent[]
+  change?: PlannedChange
+  schedule?: SchedulingPlan
+}
+
+export const INTENT_SCHEMA_DEF = `
+{
+  "intent": "create | schedule | update | delete"
+}
+`
+
+const intentSchema = z.object({
+  intent: z.enum(["create", "update", "delete", "schedule"])
+})
+
+/** Rule-based reading of what a request asks for, used without a model. */
+export const detectIntent = (text: string): RequestIntent => {
+  if (DELETE_RE.test(text)) return "delete"
+  if (UPDATE_RE.test(text)) return "update"
+  if (isSchedulingRequest(text)) return "schedule"
+  return "create"
+}
+
+const buildIntentPrompt = (
+  input: string
+) => `Before reading the events, say what this request asks for:
+- "create": new events at the times given
+- "schedule": a new event for which a free time has to be found ("find time for", "when are we all free")
+- "update": changes to an event that is ALREADY on the calendar (moving, renaming, making it longer)
+- "delete": cancelling an event that is ALREADY on the calendar
+Words like "shift", "update" or "clear" in an event's title ("Night shift", "Quarterly update") don't make it a change.
+For this request only, respond with JSON matching this structure instead of the events structure:
+${INTENT_SCHEMA_DEF}
+User Request: ${input}`
+
+/**
+ * Asks the model what `text` asks for when it has a change or cancel verb
+ * the rules may misread. Plain requests, and any without a model or a
+ * usable answer, go by `detectIntent`.
+ */
+export const classifyIntent = async (
+  prompt: PromptFn | null,
+  text: string
+): Promise<RequestIntent> => {
+  // search() ignores the global flag, so the regex's state doesn't matter
+  if (!prompt || text.search(CHANGE_VERB_RE) === -1) return detectIntent(text)
+  try {
+    const { intent } = await promptForJson(
+      prompt,
+      buildIntentPrompt(text),
+      intentSchema,
+      INTENT_SCHEMA_DEF
+    )
+    return intent
+  } catch (e) {
+    console.warn("Couldn't classify the request, using rules", e)
+    return detectIntent(text)
+  }
+}
+
+const buildChangePrompt = (
+  input: string,
+  intent: "update" | "delete"
+) => `This request ${intent === "delete" ? "cancels" : "changes"} an event that is ALREADY on the calendar.
+For this request only, respond with JSON matching this structure instead of the events structure:
+${CHANGE_SCHEMA_DEF}
+${intent === "delete" ? "Omit 'changes'." : "Only include the fields that change."}
+
+User Request: ${input}`
+
+const SHIFT_RE =
+  /\b(?:by\s+)?(\d+|an?|half an)\s*(hours?|hrs?|h|minutes?|mins?|m)\b(?:\s+(later|earlier|back|forward|sooner))?/i
+
+/**
+ * Rule-based reading of a change request, used without a model:
+ * "push my standup 30 minutes later", "move the dentist tomorrow to Friday 3pm",
+ * "cancel tomorrow's dentist".
+ */
+export const parseChangeRequest = (
+  text: string,
+  intent: "update" | "delete",
+  now = new Date()
+): ChangeRequest => {
+  let targetText = text
+  const changes: EventChanges = {}
+
+  if (intent === "update") {
+    const shift = text.match(SHIFT_RE)
+    if (shift && shift.index !== undefined) {
+      const amount =
+        shift[1].toLowerCase() === "half an"
+          ? 0.5
+          : /^an?$/i.test(shift[1])
+            ? 1
+            : Number(shift[1])
+      const minutes = shift[2].toLowerCase().startsWith("h")
+        ? amount * 60
+        : amount
+      const earlier =
+        /earlier|forward|sooner/i.test(shift[3] || "") || /\bpull\b/i.test(text)
+      changes.shiftMinutes = Math.round(earlier ? -minutes : minutes)
+      targetText = text.slice(0, shift.index)
+    } else {
+      const toIndex = text.search(/\bto\b(?!.*\bto\b)/i)
+      if (toIndex !== -1) {
+        const tail = text.slice(toIndex + 2)
+        const [when] = parseEventText(tail, now)
+        if (/\brename\b/i.test(text)) {
+          changes.title = tail.trim()
+        } else if (when?.hasTime) {
+          changes.start = toLocalDateTime(when.start)
+          if (when.hasEnd) changes.end = toLocalDateTime(when.end)
+        } else if (when?.hasDate) {
+          changes.date = toLocalDate(when.start)
+        }
+        targetText = text.slice(0, toIndex)
+      }
+    }
+  }
+
+  const cleaned = targetText.replace(CHANGE_VERB_RE, " ")
+  const [target] = parseEventText(cleaned, now)
+
+  return {
+    target: {
+      query: (target?.title || cleaned)
+        .replace(/'s\b/g, "")
+        .replace(/\s+/g, " ")
+        .trim(),
+      date: target?.hasDate ? toLocalDate(target.start) : undefined,
+      time:
+        target?.hasTime && !target.allDay
+          ? `${target.start.getHours()}:${String(target.start.getMinutes()).padStart(2, "0")}`
+          : undefined
+    },
+    changes: intent === "update" ? changes : undefined
+  }
+}
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+
+const startMinutes = (event: CalendarEvent) => {
+  if (!event.start.dateTime) return null
+  const start = new Date(event.start.dateTime)
+  return start.getHours() * 60 + start.getMinutes()
+}
+
+const scoreCandidate = (
+  event: ExistingEvent,
+  target: ChangeRequest["target"]
+) => {
+  const haystack = [
+    event.summary,
+    event.location,
+    ...(event.attendees || []).flatMap((att) => [att.email, att.displayName])
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+
+  let score = tokenize(target.query).filter((token) =>
+    haystack.includes(token)
+  ).length
+
+  if (target.time) {
+    const [hour, minute] = target.time.split(":").map(Number)
+    if (startMinutes(event) === hour * 60 + minute) score += 2
+  }
+  return score
+}
+
+/**
+ * Calendars an existing event is looked for in: the one named in the
+ * request, else every writable calendar of the chosen account.
+ */
+const searchTargets = (
+  input: string,
+  choice: CalendarChoice
+): CalendarTarget[] => {
+  const calendars = choice.calendars || []
+  const named = findCalendarHint(input, calendars)
+  const ids = named
+    ? [named.id]
+    : calendars.length
+      ? calendars.map((calendar) => calendar.id)
+      : [choice.defaultCalendarId]
+  return ids.map((calendarId) => ({ calendarId, accountId: choice.accountId }))
+}
+
+// Events from every calendar; one that can't be read doesn't hide the rest
+const listEventsIn = async (
+  targets: CalendarTarget[],
+  query: Omit<EventListQuery, keyof CalendarTarget>
+) => {
+  const lists = await Promise.all(
+    targets.map((target) =>
+      listEvents({ ...query, ...target }).catch((e) => {
+        console.warn(`Couldn't search calendar ${target.calendarId}`, e)
+        return [] as ExistingEvent[]
+      })
+    )
+  )
+  return lists.flat()
+}
+
+/**
+ * Finds events the request may refer to in `targets`: a full-text search
+ * through the Calendar API, falling back to local matching over all events
+ * in the window. Best matches come first.
+ */
+export const findCandidateEvents = async (
+  target: ChangeRequest["target"],
+  now = new Date(),
+  targets: CalendarTarget[] = [{}]
+): Promise<ExistingEvent[]> => {
+  const from = target.date ? parseLocalDate(target.date) : now
+  const to = target.date
+    ? parseLocalDate(shiftDate(target.date, 1))
+    : new Date(now.getTime() + SEARCH_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+  const window = { timeMin: from.toISOString(), timeMax: to.toISOString() }
+
+  let events = await listEventsIn(targets, { ...window, q: target.query })
+  if (events.length === 0) {
+    events = await listEventsIn(targets, { ...window, maxResults: 250 })
+  }
+
+  return events
+    .map((event) => ({ event, score: scoreCandidate(event, target) }))
+    .filter(({ score }) => score > 0 || events.length === 1)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ event }) => event)
+}
+
+/**
+ * Turns requested changes into an `events.patch` body for `event`.
+ * `titlePrefix` is the user's marker for events Lanner created.
+ */
+export const buildEventPatch = (
+  event: CalendarEvent,
+  changes: EventChanges,
+  titlePrefix = LANNER_PREFIX
+): Partial<CalendarEvent> => {
+  const patch: Partial<CalendarEvent> = {}
+
+  if (changes.title) {
+    // Keep the marker on events Lanner created
+    const prefix = [titlePrefix, LANNER_PREFIX].find(
+      (marker) => marker && event.summary?.startsWith(marker)
+    )
+    patch.summary = prefix ? prefix + changes.title : changes.title
+  }
+  if (changes.location) patch.location = changes.location
+  if (changes.description) patch.description = changes.description
+
+  if (isAllDay(event)) {
+    const spanDays = Math.round(
+      (parseLocalDate(event.end.date).getTime() -
+        parseLocalDate(event.start.date).getTime()) /
+        (24 * 60 * 60 * 1000)
+    )
+    const newStart =
+      changes.date ||
+      changes.start?.slice(0, 10) ||
+      (changes.shiftMinutes && changes.shiftMinutes % (24 * 60) === 0
+        ? shiftDate(event.start.date, changes.shiftMinutes / (24 * 60))
+        : null)
+    if (newStart) {
+      patch.start = { date: newStart }
+      patch.end = { date: shiftDate(newStart, spanDays) }
+    }
+    return patch
+  }
+
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const start = new Date(event.start.dateTime)
+  const end = new Date(event.end.dateTime)
+  const duration = end.getTime() - start.getTime()
+
+  let newStart: Date | null = null
+  let newEnd: Date | null = null
+
+  if (changes.shiftMinutes) {
+    newStart = new Date(start.getTime() + changes.shiftMinutes * 60 * 1000)
+    newEnd = new Date(end.getTime() + changes.shiftMinutes * 60 * 1000)
+  } else if (changes.start) {
+    newStart = new Date(changes.start)
+    newEnd = changes.end
+      ? new Date(changes.end)
+      : new Date(newStart.getTime() + duration)
+  } else if (changes.date) {
+    const day = parseLocalDate(changes.date)
+    newStart = new Date(start)
+    newStart.setFullYear(day.getFullYear(), day.getMonth(), day.getDate())
+    newEnd = new Date(newStart.getTime() + duration)
+  } else if (changes.end) {
+    newEnd = new Date(changes.end)
+  }
+
+  if (newStart) {
+    patch.start = { dateTime: toLocalDateTime(newStart), timeZone }
+  }
+  if (newEnd) {
+    patch.end = { dateTime: toLocalDateTime(newEnd), timeZone }
+  }
+  return patch
+}
+
+/** The event as it will look once `changes` are applied. */
+export const applyEventChanges = (
+  event: ExistingEvent,
+  changes: EventChanges
+): ExistingEvent => ({ ...event, ...buildEventPatch(event, changes) })
+
+/**
+ * Targets new events at the chosen account's calendar: the one the model
+ * picked, else the one named in the request, else the default.
+ */
+const assignCalendar = (
+  event: CalendarEvent,
+  input: string,
+  choice: CalendarChoice
+): CalendarEvent => {
+  const calendarId =
+    event.calendarId ||
+    findCalendarHint(input, choice.calendars || [])?.id ||
+    choice.defaultCalendarId
+  return { ...event, calendarId, accountId: choice.accountId }
+}
+
+// Plain names ("lunch with Ryan") are looked up in the contacts
+const resolveNames = async (
+  events: CalendarEvent[]
+): Promise<CalendarEvent[]> => {
+  if (!events.some((event) => event.attendeeNames?.length)) return events
+  const contacts = await getContacts().catch((e) => {
+    console.warn("Couldn't load contacts to resolve attendees", e)
+    return [] as Contact[]
+  })
+  return events.map((event) => resolveAttendeeNames(event, contacts))
+}
+
+// New events get their id while planned, so every attempt to create one,
+// including retries from the review, sends the same id
+const withEventId = (event: CalendarEvent): CalendarEvent =>
+  event.id ? event : { ...event, id: newEventId() }
+
+// Template fields go on after extraction, so they can't be lost by the model
+const withTemplates = (
+  events: CalendarEvent[],
+  matches: TemplateMatch[],
+  keepLength: boolean
+) =>
+  events.map((event) => {
+    const template = templateFor(event, matches)
+    return template ? applyTemplate(event, template, keepLength) : event
+  })
+
+/**
+ * Works out what `input` asks for. Creates go through event extraction;
+ * updates and deletes are resolved to candidate events on the calendar;
+ * scheduling requests get free slots to choose from.
+ * Without a model (`prompt` is null) the rule-based parser is used.
+ * `invited` are contacts the user picked from the mention list; new events
+ * get them as attendees. Templates named in the request fill in the
+ * details it leaves out.
+ */
+export const planRequest = async (
+  prompt: PromptFn | null,
+  input: string,
+  now = new Date(),
+  choice: CalendarChoice = {},
+  invited: Contact[] = []
+): Promise<RequestPlan> => {
+  const [config, templates] = await Promise.all([
+    getUserConfig(),
+    getTemplates()
+  ])
+  // "/gym" becomes the template's title before the request is read
+  const matches = findTemplates(input, templates)
+  const text = expandTemplateCommands(input, matches)
+  const intent = await classifyIntent(prompt, text)
+
+  if (intent === "create") {
+    const extracted = prompt
+      ? await extractEvents(prompt, text, {
+          calendars: choice.calendars,
+          invited
+        })
+      : parseCalendarEvents(text, now, undefined, {
+          durationMinutes: config.defaultDurationMinutes,
+          day: config.defaultDay
+        })
+    // A length given in the request wins over the template's
+    const events = withTemplates(
+      extracted,
+      matches,
+      parseEventText(text, now).some((parsed) => parsed.hasEnd)
+    )
+    // @group and @alias mentions become attendees of every event
+    const mentions = expandMentions(text, await getMentionShortcuts())
+    return {
+      intent,
+      events: await resolveNames(
+        events.map((event) =>
+          withEventId(
+            withContactAttendees(
+              withMentionAttendees(
+                assignCalendar(event, text, choice),
+                mentions
+              ),
+              invited
+            )
+          )
+        )
+      )
+    }
+  }
+
+  if (intent === "schedule") {
+    // Group members' free/busy is read while planning; this tags them
+    const [schedule, shortcuts] = await Promise.all([
+      planScheduling(
+        prompt,
+        text,
+        now,
+        config.workingHours,
+        invited,
+        choice.calendars,
+        choice.accountId
+      ),
+      getMentionShortcuts()
+    ])
+    // The slot length is already picked, so only the details apply
+    const [templated] = withTemplates([schedule.event], matches, true)
+    const [event] = await resolveNames([
+      withContactAttendees(
+        withMentionAttendees(
+          assignCalendar(templated, text, choice),
+          expandMentions(text, shortcuts)
+        ),
+        invited
+      )
+    ])
+    return { intent, schedule: { ...schedule, event: withEventId(event) } }
+  }
+
+  const request = prompt
+    ? await promptForJson(
+        prompt,
+        buildChangePrompt(text, intent),
+        changeRequestSchema,
+        CHANGE_SCHEMA_DEF
+      )
+    : parseChangeRequest(text, intent, now)
+
+  const candidates = await findCandidateEvents(
+    request.target,
+    now,
+    searchTargets(text, choice)
+  )
+
+  return {
+    intent,
+    change: {
+      intent,
+      candidates,
+      changes: request.changes || {}
+    }
+  }
+}
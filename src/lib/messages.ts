@@ -0,0 +1,282 @@
+import { z } from "zod"
+
+import type { Account } from "./accounts"
+import type {
+  BusyInterval,
+  CalendarEvent,
+  CalendarListEntry,
+  CalendarTarget,
+  CreateEventResult,
+  EventListQuery,
+  ExistingEvent,
+  FreeBusyQuery
+} from "./calendar"
+import type { ChatMessage } from "./providers"
+import type { RemoteModelConfig } from "./storage"
+
+// The contract between the popup/content scripts and the background
+// script. Every operation the background performs for other contexts is
+// listed here with its payload and result; requests and replies carry the
+// protocol version and a request ID so stale or mismatched replies are
+// rejected instead of misread.
+
+export const PROTOCOL_VERSION = 1
+
+export interface BackgroundMessages {
+  CREATE_EVENT: { payload: CalendarEvent; result: CreateEventResult }
+  GET_AUTH_TOKEN: {
+    payload: { interactive: boolean; accountId?: string }
+    result: string
+  }
+  LINK_ACCOUNT: { payload: null; result: Account }
+  CHAT_COMPLETION: {
+    payload: { config: RemoteModelConfig; messages: ChatMessage[] }
+    result: string
+  }
+  LIST_EVENTS: { payload: EventListQuery; result: ExistingEvent[] }
+  LIST_CALENDARS: {
+    payload: { accountId?: string }
+    result: CalendarListEntry[]
+  }
+  UPDATE_EVENT: {
+    payload: {
+      eventId: string
+      patch: Partial<CalendarEvent>
+      target?: CalendarTarget
+    }
+    result: ExistingEvent
+  }
+  DELETE_EVENT: {
+    payload: { eventId: string; target?: CalendarTarget }
+    result: void
+  }
+  QUERY_FREE_BUSY: {
+    payload: FreeBusyQuery
+    result: Record<string, BusyInterval[]>
+  }
+  PROCESS_OUTBOX: { payload: null; result: void }
+  DISCARD_OUTBOX_ITEM: { payload: { id: string }; result: void }
+}
+
+export type MessageType = keyof BackgroundMessages
+export type MessagePayload<K extends MessageType> =
+  BackgroundMessages[K]["payload"]
+export type MessageResult<K extends MessageType> =
+  BackgroundMessages[K]["result"]
+
+export interface BackgroundRequest<K extends MessageType = MessageType> {
+  v: typeof PROTOCOL_VERSION
+  id: string
+  type: K
+  payload: MessagePayload<K>
+}
+
+export type BackgroundResponse<K extends MessageType = MessageType> =
+  | { v: typeof PROTOCOL_VERSION; id: string; ok: true; data: MessageResult<K> }
+  | { v: typeof PROTOCOL_VERSION; id: string; ok: false; error: string }
+
+// Payloads are checked for shape only; the handlers and the Google API
+// validate the details
+const target = z.object({
+  accountId: z.string().optional(),
+  calendarId: z.string().optional()
+})
+const dateTime = z.looseObject({
+  dateTime: z.string().optional(),
+  date: z.string().optional(),
+  timeZone: z.string().optional()
+})
+const event = z.looseObject({
+  ...target.shape,
+  summary: z.string(),
+  start: dateTime,
+  end: dateTime
+})
+const timeRange = {
+  accountId: z.string().optional(),
+  timeMin: z.string(),
+  timeMax: z.string()
+}
+
+const payloadSchemas: { [K in MessageType]: z.ZodType } = {
+  CREATE_EVENT: event,
+  GET_AUTH_TOKEN: z.object({
+    interactive: z.boolean(),
+    accountId: z.string().optional()
+  }),
+  LINK_ACCOUNT: z.null(),
+  CHAT_COMPLETION: z.object({
+    config: z.looseObject({ baseUrl: z.string(), model: z.string() }),
+    messages: z.array(
+      z.object({
+        role: z.enum(["system", "user", "assistant"]),
+        content: z.string()
+      })
+    )
+  }),
+  LIST_EVENTS: z.looseObject({ ...target.shape, ...timeRange }),
+  LIST_CALENDARS: z.object({ accountId: z.string().optional() }),
+  UPDATE_EVENT: z.object({
+    eventId: z.string(),
+    patch: z.looseObject({}),
+    target: target.optional()
+  }),
+  DELETE_EVENT: z.object({ eventId: z.string(), target: target.optional() }),
+  QUERY_FREE_BUSY: z.object({
+    ...timeRange,
+    calendarIds: z.array(z.string()).optional()
+  }),
+  PROCESS_OUTBOX: z.null(),
+  DISCARD_OUTBOX_ITEM: z.object({ id: z.string() })
+}
+
+const requestSchema = z.object({
+  v: z.number(),
+  id: z.string(),
+  type: z.string(),
+  payload: z.unknown()
+})
+
+const responseSchema = z.union([
+  z.object({
+    v: z.number(),
+    id: z.string(),
+    ok: z.literal(true),
+    data: z.unknown()
+  }),
+  z.object({
+    v: z.number(),
+    id: z.string(),
+    ok: z.literal(false),
+    error: z.string()
+  })
+])
+
+const DEFAULT_TIMEOUT = 30 * 1000
+
+// Operations that wait on the user or on slow upstreams get longer
+const TIMEOUTS: Partial<Record<MessageType, number>> = {
+  GET_AUTH_TOKEN: 5 * 60 * 1000,
+  LINK_ACCOUNT: 5 * 60 * 1000,
+  CHAT_COMPLETION: 2 * 60 * 1000,
+  PROCESS_OUTBOX: 2 * 60 * 1000,
+  // googleFetch alone may wait out Retry-After for 3 × 30s; timing out
+  // first would report a failure for an event that still gets created
+  CREATE_EVENT: 3 * 60 * 1000
+}
+
+const isMessageType = (type: string): type is MessageType =>
+  Object.prototype.hasOwnProperty.call(payloadSchemas, type)
+
+const nextRequestId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+/**
+ * Sends a request to the background script and resolves with its result.
+ * Rejects with the handler's error message, or when no matching reply
+ * arrives within the operation's timeout.
+ */
+export const sendToBackground = <K extends MessageType>(
+  type: K,
+  payload: MessagePayload<K>,
+  timeoutMs = TIMEOUTS[type] ?? DEFAULT_TIMEOUT
+): Promise<MessageResult<K>> => {
+  const request: BackgroundRequest<K> = {
+    v: PROTOCOL_VERSION,
+    id: nextRequestId(),
+    type,
+    payload
+  }
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+    const settle = (fn: () => void) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      fn()
+    }
+    const timer = setTimeout(
+      () =>
+        settle(() =>
+          reject(new Error(`${type} timed out after ${timeoutMs / 1000}s`))
+        ),
+      timeoutMs
+    )
+
+    chrome.runtime.sendMessage(request, (response) => {
+      const lastError = chrome.runtime.lastError
+      settle(() => {
+        if (lastError) {
+          reject(new Error(lastError.message))
+          return
+        }
+        const parsed = responseSchema.safeParse(response)
+        if (!parsed.success) {
+          reject(new Error(`No valid response from background for ${type}`))
+        } else if (
+          parsed.data.v !== PROTOCOL_VERSION ||
+          parsed.data.id !== request.id
+        ) {
+          reject(new Error(`Mismatched response from background for ${type}`))
+        } else if (parsed.data.ok === false) {
+          reject(new Error(parsed.data.error))
+        } else {
+          resolve(parsed.data.data as MessageResult<K>)
+        }
+      })
+    })
+  })
+}
+
+export type MessageHandlers = {
+  [K in MessageType]: (
+    payload: MessagePayload<K>,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<MessageResult<K>>
+}
+
+/**
+ * Answers background requests with `handlers`. Requests for another
+ * protocol version, unknown types and malformed payloads get an error
+ * reply rather than reaching a handler.
+ */
+export const handleBackgroundMessages = (handlers: MessageHandlers) => {
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    const parsed = requestSchema.safeParse(message)
+    // Not one of ours
+    if (!parsed.success) return false
+
+    const { v, id, type, payload } = parsed.data
+    const fail = (error: string) =>
+      sendResponse({ v: PROTOCOL_VERSION, id, ok: false, error })
+
+    if (v !== PROTOCOL_VERSION) {
+      fail(`Unsupported protocol version ${v}; reload the page`)
+      return false
+    }
+    if (!isMessageType(type)) {
+      fail(`Unknown message type "${type}"`)
+      return false
+    }
+    const checked = payloadSchemas[type].safeParse(payload)
+    if (!checked.success) {
+      fail(`Invalid ${type} payload: ${z.prettifyError(checked.error)}`)
+      return false
+    }
+
+    const handler = handlers[type] as (
+      payload: unknown,
+      sender: chrome.runtime.MessageSender
+    ) => Promise<unknown>
+    // Handlers get the payload as sent, not the schema's stripped copy
+    handler(payload, sender)
+      .then((data) => sendResponse({ v: PROTOCOL_VERSION, id, ok: true, data }))
+      .catch((error) =>
+        fail(error instanceof Error ? error.message : String(error))
+      )
+
+    // Keep the channel open for the async reply
+    return true
+  })
+}
@@ -0,0 +1,190 @@
+import { z } from "zod"
+
+import {
+  calendarEventSchema,
+  createEventDirect,
+  newEventId,
+  type CalendarEvent,
+  type CreateEventResult
+} from "./calendar"
+import { GoogleApiError, isTransientError } from "./googleApi"
+import { sendToBackground } from "./messages"
+import { defineItem, StorageKeys } from "./storage"
+import { recordCreated } from "./undo"
+
+// Approved events the Calendar API couldn't take yet (offline, 5xx, rate
+// limited). The background script keeps retrying them with exponential
+// backoff until they go through or fail for good.
+
+export interface OutboxItem {
+  id: string
+  event: CalendarEvent
+  queuedAt: number
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+  // Set once the API rejected the event outright; kept until dismissed
+  failed?: boolean
+}
+
+/** Queued events; the background script updates it as it retries. */
+export const outboxItem = defineItem<OutboxItem[]>(
+  StorageKeys.OUTBOX,
+  z.array(
+    z.looseObject({
+      id: z.string(),
+      event: calendarEventSchema,
+      queuedAt: z.number(),
+      attempts: z.number(),
+      nextAttemptAt: z.number(),
+      lastError: z.string().optional(),
+      failed: z.boolean().optional()
+    })
+  ),
+  []
+)
+
+export const OUTBOX_ALARM = "lanner-outbox"
+
+const BASE_DELAY = 30 * 1000
+const MAX_DELAY = 30 * 60 * 1000
+
+// Anything failing while offline is worth retrying, e.g. a token refresh
+const isRetryableError = (error: unknown) =>
+  (typeof navigator !== "undefined" && !navigator.onLine) ||
+  isTransientError(error)
+
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_DELAY * 2 ** (attempts - 1), MAX_DELAY)
+
+export const getOutbox = (): Promise<OutboxItem[]> => outboxItem.get()
+
+const updateOutbox = async (update: (items: OutboxItem[]) => OutboxItem[]) => {
+  await outboxItem.update(update)
+}
+
+/** Wakes the worker for the earliest pending retry, if any. */
+const scheduleRetry = async () => {
+  const pending = (await getOutbox()).filter((item) => !item.failed)
+  if (pending.length === 0) {
+    await chrome.alarms.clear(OUTBOX_ALARM)
+    return
+  }
+  const when = Math.min(...pending.map((item) => item.nextAttemptAt))
+  await chrome.alarms.create(OUTBOX_ALARM, { when: Math.max(when, Date.now()) })
+}
+
+const notify = (title: string, message: string) => {
+  chrome.notifications.create({
+    type: "basic",
+    iconUrl: chrome.runtime.getURL(chrome.runtime.getManifest().icons?.["128"]),
+    title,
+    message
+  })
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+/**
+ * Creates `event`, or queues it when the failure looks temporary. Other
+ * errors are thrown as usual. The id given when the event was planned is
+ * kept in the outbox, so an attempt whose response was lost isn't created
+ * again by the next one; events planned without one get it here.
+ */
+export const createEventOrQueue = async (
+  newEvent: CalendarEvent
+): Promise<CreateEventResult> => {
+  const event = { ...newEvent, id: newEvent.id || newEventId() }
+  try {
+    return { created: await createEventDirect(event) }
+  } catch (e) {
+    if (!isRetryableError(e)) throw e
+
+    const item: OutboxItem = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      event,
+      queuedAt: Date.now(),
+      attempts: 1,
+      nextAttemptAt: Date.now() + retryDelay(1),
+      lastError: errorMessage(e)
+    }
+    await updateOutbox((items) => [...items, item])
+    await scheduleRetry()
+    return { queued: item }
+  }
+}
+
+let processing: Promise<void> | null = null
+
+const processDue = async (force: boolean) => {
+  const due = (await getOutbox()).filter(
+    (item) => !item.failed && (force || item.nextAttemptAt <= Date.now())
+  )
+
+  const synced: string[] = []
+  for (const item of due) {
+    try {
+      const created = await createEventDirect(item.event)
+      synced.push(item.event.summary)
+      await updateOutbox((items) => items.filter((i) => i.id !== item.id))
+      await recordCreated([created])
+    } catch (e) {
+      const retryable = isRetryableError(e)
+      await updateOutbox((items) =>
+        items.map((i) =>
+          i.id === item.id
+            ? {
+                ...i,
+                attempts: i.attempts + 1,
+                nextAttemptAt: Date.now() + retryDelay(i.attempts + 1),
+                lastError: errorMessage(e),
+                failed: !retryable
+              }
+            : i
+        )
+      )
+      if (!retryable) {
+        notify(
+          "Couldn't add queued event",
+          `"${item.event.summary}": ${errorMessage(e)}`
+        )
+      } else if (e instanceof GoogleApiError && e.kind === "network") {
+        // Still offline; the rest would fail the same way
+        break
+      }
+    }
+  }
+
+  if (synced.length > 0) {
+    notify(
+      "Queued events synced",
+      synced.length === 1
+        ? `"${synced[0]}" was added to your calendar.`
+        : `${synced.length} events were added to your calendar.`
+    )
+  }
+  await scheduleRetry()
+}
+
+/**
+ * Retries queued events that are due, or all of them when `force` (e.g.
+ * the browser just came back online). Runs one pass at a time.
+ */
+export const processOutbox = (force = false) => {
+  processing ??= processDue(force).finally(() => {
+    processing = null
+  })
+  return processing
+}
+
+/** Drops an entry, e.g. one that failed for good. */
+export const discardOutboxItem = async (id: string) => {
+  await updateOutbox((items) => items.filter((item) => item.id !== id))
+  await scheduleRetry()
+}
+
+export const retryOutbox = () => sendToBackground("PROCESS_OUTBOX", null)
+
+export const discardQueuedEvent = (id: string) =>
+  sendToBackground("DISCARD_OUTBOX_ITEM", { id })
@@ -0,0 +1,745 @@
+import {
+  matchCalendar,
+  type CalendarEvent,
+  type CalendarListEntry
+} from "./calendar"
+import { toLocalDate, toLocalDateTime } from "./dates"
+import {
+  formatRRule,
+  toUntilDate,
+  WEEKDAY_CODES,
+  type RecurrenceRule
+} from "./recurrence"
+import type { DefaultDay } from "./storage"
+
+// Deterministic, model-free parsing of scheduling phrases such as
+// "standup tomorrow 9:30 for 15 min" or "next Tue 3-4pm".
+
+// For all-day events `start` is the first day and `end` the day after the
+// last one (midnight, exclusive), matching the Calendar API.
+
+export interface ParsedEvent {
+  title: string
+  start: Date
+  end: Date
+  attendees: string[]
+  // People named without an email: "lunch with Ryan and Priya"
+  people: string[]
+  recurrence?: string
+  allDay: boolean
+  hasDate: boolean
+  hasTime: boolean
+  // The start hour was written unambiguously (am/pm, 24-hour, noon or
+  // midnight) rather than guessed
+  hasExactTime: boolean
+  hasEnd: boolean
+}
+
+// What a request leaves out, from the user's settings
+export interface ParseDefaults {
+  durationMinutes: number
+  day: DefaultDay
+}
+
+const DEFAULTS: ParseDefaults = { durationMinutes: 60, day: "tomorrow" }
+const DEFAULT_HOUR = 9
+const EVENING_HOUR = 19
+const DEFAULT_TITLE = "New event"
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  weds: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0,
+  january: 0,
+  feb: 1,
+  february: 1,
+  mar: 2,
+  march: 2,
+  apr: 3,
+  april: 3,
+  may: 4,
+  jun: 5,
+  june: 5,
+  jul: 6,
+  july: 6,
+  aug: 7,
+  august: 7,
+  sep: 8,
+  sept: 8,
+  september: 8,
+  oct: 9,
+  october: 9,
+  nov: 10,
+  november: 10,
+  dec: 11,
+  december: 11
+}
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS)
+  .sort((a, b) => b.length - a.length)
+  .join("|")
+const MONTH_PATTERN = Object.keys(MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join("|")
+const MERIDIEM_PATTERN = "a\\.?m\\.?|p\\.?m\\.?"
+
+const EMAIL_RE = /<?([\w.+-]+@[\w-]+(?:\.[\w-]+)+)>?/g
+// Capitalized names after "with": "with Ryan", "with Ryan Park, Priya & Sam"
+const PERSON_NAME = "\\p{Lu}[\\p{L}'’-]*(?:\\s+\\p{Lu}[\\p{L}'’-]*)?"
+const WITH_PEOPLE_RE = new RegExp(
+  `\\b[Ww]ith\\s+(${PERSON_NAME}(?:\\s*(?:,\\s*(?:and\\s+)?|\\s+and\\s+|\\s*&\\s*)${PERSON_NAME})*)`,
+  "gu"
+)
+const NOT_A_NAME_RE = new RegExp(
+  `^(?:${WEEKDAY_PATTERN}|${MONTH_PATTERN}|today|tomorrow|tonight|next|this|the|my|our|your|team|everyone|all)$`,
+  "i"
+)
+const DURATION_RE =
+  /\bfor\s+(half an|an?|\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)\b/i
+const ISO_DATE_RE = /\b(\d{4})-(\d{2})-(\d{2})\b/
+const SLASH_DATE_RE = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/
+const MONTH_DAY_RANGE_RE = new RegExp(
+  `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\s*(?:-|–|to|through|thru|until)\\s*(?:(${MONTH_PATTERN})\\.?\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?!\\s*(?:${MERIDIEM_PATTERN}|:|\\d))(?:,?\\s+(\\d{4}))?\\b`,
+  "i"
+)
+const MONTH_DAY_RE = new RegExp(
+  `\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`,
+  "i"
+)
+const DAY_MONTH_RE = new RegExp(
+  `\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_PATTERN})\\b\\.?(?:,?\\s+(\\d{4}))?`,
+  "i"
+)
+const DAY_OF_MONTH_RE = /\b(?:on\s+)?the\s+(\d{1,2})(?:st|nd|rd|th)\b/i
+const RELATIVE_DAY_RE =
+  /\b(?:the\s+)?(day after tomorrow|today|tonight|tomorrow|tmrw|tmr)\b/i
+const IN_DAYS_RE = /\bin\s+(\d+|a|one|two|three)\s+(days?|weeks?)\b/i
+const NEXT_WEEK_RE = /\bnext\s+week\b/i
+const WEEKDAY_RE = new RegExp(
+  `\\b(?:(next|this|on|every)\\s+)?(${WEEKDAY_PATTERN})\\b\\.?`,
+  "i"
+)
+const TIME_RANGE_RE = new RegExp(
+  `\\b(?:(from|at)\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(${MERIDIEM_PATTERN})?\\s*(?:-|–|to|until|till)\\s*(\\d{1,2})(?::(\\d{2}))?\\s*(${MERIDIEM_PATTERN})?(?!\\w)`,
+  "i"
+)
+const TIME_MERIDIEM_RE = new RegExp(
+  `(?:\\b(?:at|@)\\s*)?\\b(\\d{1,2})(?::(\\d{2}))?\\s*(${MERIDIEM_PATTERN})(?!\\w)`,
+  "i"
+)
+const TIME_24H_RE = /(?:\bat\s+)?\b(\d{1,2}):(\d{2})\b/i
+const TIME_BARE_AT_RE = /\bat\s+(\d{1,2})\b(?!\s*(?:st|nd|rd|th|\/|-))/i
+const NAMED_TIME_RE = /\b(?:at\s+)?(noon|midday|midnight)\b/i
+const EVERY_WEEKDAYS_RE = new RegExp(
+  `\\bevery\\s+(other\\s+)?((?:${WEEKDAY_PATTERN})s?\\.?(?:\\s*(?:,|and|&)\\s*(?:${WEEKDAY_PATTERN})s?\\.?)*)`,
+  "i"
+)
+const EVERY_WORKDAY_RE = /\b(?:every\s+(?:weekday|workday)|weekdays)\b/i
+const EVERY_PERIOD_RE =
+  /\b(?:every\s+(other\s+)?(day|week|month|year)|(daily|everyday|weekly|biweekly|monthly|yearly|annually))\b/i
+const REPEAT_UNTIL_RE = new RegExp(
+  `\\b(?:until|through|thru)\\s+(?:(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?|(\\d{1,2})\\/(\\d{1,2})(?:\\/(\\d{2,4}))?)\\b`,
+  "i"
+)
+// "on the team calendar"
+const CALENDAR_RE =
+  /\b(?:on|in|to|into)\s+(?:the\s+|my\s+|our\s+)?([\w'-]+(?:\s+[\w'-]+)?)\s+calendar\b/i
+const REPEAT_COUNT_RE = /\bfor\s+(\d+)\s+(?:times|occurrences|sessions)\b/i
+
+const WORD_NUMBERS: Record<string, number> = { a: 1, one: 1, two: 2, three: 3 }
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+const addMinutes = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60 * 1000)
+
+const to24Hour = (hour: number, meridiem?: string) => {
+  if (!meridiem) return hour
+  const isPm = meridiem.toLowerCase().startsWith("p")
+  if (hour === 12) return isPm ? 12 : 0
+  return isPm ? hour + 12 : hour
+}
+
+// "09:30" or "14:00"; a plain "9:30" could still mean the evening
+const is24HourClock = (hour: string) => /^(?:0\d|1[3-9]|2[0-3])$/.test(hour)
+
+/**
+ * Without am/pm, small hours almost always mean the afternoon
+ * ("lunch at 1", "call at 4").
+ */
+const guessHour = (hour: number, evening: boolean) => {
+  if (hour > 12) return hour
+  if (evening && hour < 12) return hour + 12
+  return hour >= 1 && hour <= 7 ? hour + 12 : hour
+}
+
+/** Next occurrence of `weekday` strictly after `today`. */
+const nextWeekday = (today: Date, weekday: number) => {
+  const diff = (weekday - today.getDay() + 7) % 7 || 7
+  return addDays(today, diff)
+}
+
+/** Resolves a date without a year to this year, or next year if already past. */
+const resolveYear = (today: Date, month: number, day: number) => {
+  const candidate = new Date(today.getFullYear(), month, day)
+  return candidate < today
+    ? new Date(today.getFullYear() + 1, month, day)
+    : candidate
+}
+
+const normalizeYear = (year: number) => (year < 100 ? 2000 + year : year)
+
+const PERIOD_FREQUENCIES: Record<string, RecurrenceRule["freq"]> = {
+  day: "DAILY",
+  daily: "DAILY",
+  everyday: "DAILY",
+  week: "WEEKLY",
+  weekly: "WEEKLY",
+  biweekly: "WEEKLY",
+  month: "MONTHLY",
+  monthly: "MONTHLY",
+  year: "YEARLY",
+  yearly: "YEARLY",
+  annually: "YEARLY"
+}
+
+interface TimeOfDay {
+  hour: number
+  minute: number
+  // False when the hour is a guess, e.g. "at 7" without am/pm
+  exact: boolean
+}
+
+interface Segment {
+  text: string
+}
+
+/** Runs `re` against the segment and blanks out the match when found. */
+const take = (segment: Segment, re: RegExp) => {
+  const match = segment.text.match(re)
+  if (match && match.index !== undefined) {
+    segment.text =
+      segment.text.slice(0, match.index) +
+      " " +
+      segment.text.slice(match.index + match[0].length)
+  }
+  return match
+}
+
+/** Multi-day spans such as "Oct 3-5" or "Dec 30 to Jan 2". */
+const parseDateRange = (
+  segment: Segment,
+  today: Date
+): { first: Date; last: Date } | null => {
+  const match = take(segment, MONTH_DAY_RANGE_RE)
+  if (!match) return null
+
+  const startMonth = MONTHS[match[1].toLowerCase()]
+  const endMonth = match[3] ? MONTHS[match[3].toLowerCase()] : startMonth
+  const first = match[5]
+    ? new Date(Number(match[5]), startMonth, Number(match[2]))
+    : resolveYear(today, startMonth, Number(match[2]))
+  let last = new Date(first.getFullYear(), endMonth, Number(match[4]))
+  if (last < first) {
+    last = new Date(first.getFullYear() + 1, endMonth, Number(match[4]))
+  }
+  return { first, last }
+}
+
+const parseDate = (segment: Segment, today: Date): Date | null => {
+  let match = take(segment, ISO_DATE_RE)
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  }
+
+  match = take(segment, MONTH_DAY_RE)
+  if (match) {
+    const month = MONTHS[match[1].toLowerCase()]
+    const day = Number(match[2])
+    return match[3]
+      ? new Date(Number(match[3]), month, day)
+      : resolveYear(today, month, day)
+  }
+
+  match = take(segment, DAY_MONTH_RE)
+  if (match) {
+    const month = MONTHS[match[2].toLowerCase()]
+    const day = Number(match[1])
+    return match[3]
+      ? new Date(Number(match[3]), month, day)
+      : resolveYear(today, month, day)
+  }
+
+  match = take(segment, SLASH_DATE_RE)
+  if (match) {
+    const month = Number(match[1]) - 1
+    const day = Number(match[2])
+    return match[3]
+      ? new Date(normalizeYear(Number(match[3])), month, day)
+      : resolveYear(today, month, day)
+  }
+
+  match = take(segment, DAY_OF_MONTH_RE)
+  if (match) {
+    const day = Number(match[1])
+    const candidate = new Date(today.getFullYear(), today.getMonth(), day)
+    return candidate < today
+      ? new Date(today.getFullYear(), today.getMonth() + 1, day)
+      : candidate
+  }
+
+  match = take(segment, RELATIVE_DAY_RE)
+  if (match) {
+    const word = match[1].toLowerCase()
+    if (word === "day after tomorrow") return addDays(today, 2)
+    if (word === "today" || word === "tonight") return today
+    return addDays(today, 1)
+  }
+
+  match = take(segment, IN_DAYS_RE)
+  if (match) {
+    const count = WORD_NUMBERS[match[1].toLowerCase()] ?? Number(match[1])
+    const unit = match[2].toLowerCase().startsWith("week") ? 7 : 1
+    return addDays(today, count * unit)
+  }
+
+  match = take(segment, WEEKDAY_RE)
+  if (match) {
+    const qualifier = match[1]?.toLowerCase()
+    const weekday = WEEKDAYS[match[2].toLowerCase()]
+    let date = nextWeekday(today, weekday)
+    if (qualifier === "next") {
+      // "next Tue" means next week's Tuesday when this week's is still ahead
+      const daysToWeekEnd = (7 - today.getDay()) % 7
+      const diff = (date.getTime() - today.getTime()) / (24 * 60 * 60 * 1000)
+      if (Math.round(diff) <= daysToWeekEnd) {
+        date = addDays(date, 7)
+      }
+    }
+    return date
+  }
+
+  match = take(segment, NEXT_WEEK_RE)
+  if (match) {
+    return nextWeekday(today, 1)
+  }
+
+  return null
+}
+
+/**
+ * Detects "every Friday", "every other Mon and Wed", "every weekday",
+ * "daily", "monthly until Dec 20", "weekly for 6 weeks" and similar.
+ * Returns the rule and, for weekday rules, the first matching day.
+ */
+const parseRecurrence = (
+  segment: Segment,
+  today: Date
+): { rule: RecurrenceRule; firstDate?: Date } | null => {
+  let rule: RecurrenceRule | null = null
+  let firstDate: Date | undefined
+
+  let match = take(segment, EVERY_WEEKDAYS_RE)
+  if (match) {
+    const days = Array.from(
+      match[2].matchAll(new RegExp(`(${WEEKDAY_PATTERN})`, "gi")),
+      (m) => WEEKDAYS[m[1].toLowerCase()]
+    )
+    const unique = Array.from(new Set(days))
+    rule = {
+      freq: "WEEKLY",
+      interval: match[1] ? 2 : undefined,
+      byDay: unique.map((day) => WEEKDAY_CODES[day])
+    }
+    firstDate = unique
+      .map((day) => nextWeekday(today, day))
+      .sort((a, b) => a.getTime() - b.getTime())[0]
+  }
+
+  if (!rule && (match = take(segment, EVERY_WORKDAY_RE))) {
+    rule = { freq: "WEEKLY", byDay: ["MO", "TU", "WE", "TH", "FR"] }
+    firstDate = addDays(today, 1)
+    while (firstDate.getDay() === 0 || firstDate.getDay() === 6) {
+      firstDate = addDays(firstDate, 1)
+    }
+  }
+
+  if (!rule && (match = take(segment, EVERY_PERIOD_RE))) {
+    const word = (match[2] || match[3]).toLowerCase()
+    rule = {
+      freq: PERIOD_FREQUENCIES[word],
+      interval: match[1] || word === "biweekly" ? 2 : undefined
+    }
+  }
+
+  if (!rule) return null
+
+  match = take(segment, REPEAT_UNTIL_RE)
+  if (match) {
+    const until = match[1]
+      ? match[3]
+        ? new Date(
+            Number(match[3]),
+            MONTHS[match[1].toLowerCase()],
+            Number(match[2])
+          )
+        : resolveYear(today, MONTHS[match[1].toLowerCase()], Number(match[2]))
+      : match[6]
+        ? new Date(
+            normalizeYear(Number(match[6])),
+            Number(match[4]) - 1,
+            Number(match[5])
+          )
+        : resolveYear(today, Number(match[4]) - 1, Number(match[5]))
+    rule.until = toUntilDate(until)
+  } else if ((match = take(segment, REPEAT_COUNT_RE))) {
+    rule.count = Number(match[1])
+  }
+
+  return { rule, firstDate }
+}
+
+const parseTimes = (
+  segment: Segment,
+  evening: boolean
+): { start?: TimeOfDay; end?: TimeOfDay } => {
+  let match = segment.text.match(TIME_RANGE_RE)
+  // A bare "2-3" could be anything; only treat it as a time range when it
+  // carries a colon, am/pm, or a "from"/"at" lead-in.
+  if (match && (match[1] || match[3] || match[4] || match[6] || match[7])) {
+    take(segment, TIME_RANGE_RE)
+    const endMeridiem = match[7]
+    const startMeridiem = match[4] || endMeridiem
+    const endHourRaw = Number(match[5])
+    const endMinute = Number(match[6] || 0)
+    let startHour = Number(match[2])
+    const startMinute = Number(match[3] || 0)
+
+    let endHour = endMeridiem
+      ? to24Hour(endHourRaw, endMeridiem)
+      : guessHour(endHourRaw, evening)
+    if (match[4]) {
+      startHour = to24Hour(startHour, match[4])
+    } else if (startMeridiem) {
+      // "11-1pm" is 11am to 1pm, "3-4pm" is 3pm to 4pm
+      const asSame = to24Hour(startHour, startMeridiem)
+      startHour =
+        asSame * 60 + startMinute > endHour * 60 + endMinute
+          ? to24Hour(startHour, "am")
+          : asSame
+    } else {
+      startHour = guessHour(startHour, evening)
+    }
+    if (!endMeridiem && endHour * 60 + endMinute <= startHour * 60) {
+      endHour += 12
+    }
+
+    const exact = !!startMeridiem || (is24HourClock(match[2]) && !!match[3])
+    return {
+      start: { hour: startHour, minute: startMinute, exact },
+      end: { hour: endHour % 24, minute: endMinute, exact }
+    }
+  }
+
+  match = take(segment, NAMED_TIME_RE)
+  if (match) {
+    const hour = match[1].toLowerCase() === "midnight" ? 0 : 12
+    return { start: { hour, minute: 0, exact: true } }
+  }
+
+  match = take(segment, TIME_MERIDIEM_RE)
+  if (match) {
+    return {
+      start: {
+        hour: to24Hour(Number(match[1]), match[3]),
+        minute: Number(match[2] || 0),
+        exact: true
+      }
+    }
+  }
+
+  match = take(segment, TIME_24H_RE)
+  if (match) {
+    const hour = Number(match[1])
+    const shifted = hour < 12 && evening
+    return {
+      start: {
+        hour: shifted ? hour + 12 : hour,
+        minute: Number(match[2]),
+        exact: !shifted && is24HourClock(match[1])
+      }
+    }
+  }
+
+  match = take(segment, TIME_BARE_AT_RE)
+  if (match) {
+    return {
+      start: {
+        hour: guessHour(Number(match[1]), evening),
+        minute: 0,
+        exact: false
+      }
+    }
+  }
+
+  return {}
+}
+
+const parseDuration = (segment: Segment): number | null => {
+  const match = take(segment, DURATION_RE)
+  if (!match) return null
+
+  const amountRaw = match[1].toLowerCase()
+  const amount =
+    amountRaw === "half an"
+      ? 0.5
+      : amountRaw.startsWith("a")
+        ? 1
+        : Number(match[1])
+  const isHours = match[2].toLowerCase().startsWith("h")
+  return Math.round(isHours ? amount * 60 : amount)
+}
+
+const cleanTitle = (text: string) => {
+  const title = text
+    .replace(/@/g, "")
+    .replace(/\b(?:at|on|from|every)\s*$/i, "")
+    .replace(/^\s*(?:at|on|from)\b/i, "")
+    .replace(/\s+([,.;:!?])/g, "$1")
+    .replace(/\s{2,}/g, " ")
+    .replace(/^[\s,.;:-]+|[\s,.;:-]+$/g, "")
+    .replace(/\s+(?:at|on|from)$/i, "")
+    .trim()
+
+  if (!title) return DEFAULT_TITLE
+  return title.charAt(0).toUpperCase() + title.slice(1)
+}
+
+const findPeople = (text: string): string[] => {
+  const people = new Set<string>()
+  for (const match of text.matchAll(WITH_PEOPLE_RE)) {
+    for (const part of match[1].split(/\s*(?:,|&|\band\b)\s*/)) {
+      // "with Ryan Monday" is Ryan on Monday
+      const words = part.trim().split(/\s+/)
+      const end = words.findIndex((word) => NOT_A_NAME_RE.test(word))
+      const name = words.slice(0, end < 0 ? undefined : end).join(" ")
+      if (name) people.add(name)
+    }
+  }
+  return Array.from(people)
+}
+
+const parseSegment = (
+  text: string,
+  now: Date,
+  defaults: ParseDefaults
+): ParsedEvent | null => {
+  const segment: Segment = { text }
+  const today = startOfDay(now)
+
+  const attendees = Array.from(text.matchAll(EMAIL_RE), (m) => m[1])
+  segment.text = segment.text.replace(EMAIL_RE, " ")
+  const people = findPeople(segment.text)
+  take(segment, CALENDAR_RE)
+
+  const evening = /\btonight\b/i.test(text)
+  const recurrence = parseRecurrence(segment, today)
+  const range = parseDateRange(segment, today)
+  const date = range?.first || parseDate(segment, today)
+  const duration = parseDuration(segment)
+  const times = parseTimes(segment, evening)
+
+  if (!date && !times.start && duration === null && !recurrence) {
+    return null
+  }
+
+  const day =
+    date ||
+    recurrence?.firstDate ||
+    addDays(today, defaults.day === "today" ? 0 : 1)
+  const common = {
+    title: cleanTitle(segment.text),
+    attendees,
+    people,
+    recurrence: recurrence ? formatRRule(recurrence.rule) : undefined,
+    hasDate: !!date || !!recurrence?.firstDate
+  }
+
+  // A day (or span of days) with no time of day is an all-day event:
+  // "Sam's birthday on the 12th", "Offsite Oct 3-5"
+  if (!times.start && duration === null && !evening) {
+    return {
+      ...common,
+      start: day,
+      end: addDays(range?.last || day, 1),
+      allDay: true,
+      hasTime: false,
+      hasExactTime: false,
+      hasEnd: !!range
+    }
+  }
+
+  const startTime = times.start || {
+    hour: evening ? EVENING_HOUR : DEFAULT_HOUR,
+    minute: 0,
+    exact: false
+  }
+  const start = new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    startTime.hour,
+    startTime.minute
+  )
+
+  let end: Date
+  if (times.end) {
+    end = new Date(
+      day.getFullYear(),
+      day.getMonth(),
+      day.getDate(),
+      times.end.hour,
+      times.end.minute
+    )
+    if (end <= start) end = addDays(end, 1)
+  } else {
+    end = addMinutes(start, duration ?? defaults.durationMinutes)
+  }
+
+  return {
+    ...common,
+    start,
+    end,
+    allDay: false,
+    hasTime: !!times.start,
+    hasExactTime: startTime.exact,
+    hasEnd: !!times.end || duration !== null
+  }
+}
+
+/**
+ * Parses free text into events. Separate events can be given on separate
+ * lines or separated by semicolons. Segments without any date or time
+ * information are ignored.
+ */
+export const parseEventText = (
+  text: string,
+  now = new Date(),
+  defaults = DEFAULTS
+) =>
+  text
+    .split(/[\n;]+/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => parseSegment(part, now, defaults))
+    .filter((evt): evt is ParsedEvent => evt !== null)
+
+export const parsedToCalendarEvent = (
+  parsed: ParsedEvent,
+  timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+): CalendarEvent => ({
+  summary: parsed.title,
+  attendees: parsed.attendees.length
+    ? parsed.attendees.map((email) => ({ email }))
+    : undefined,
+  attendeeNames: parsed.people.length ? parsed.people : undefined,
+  recurrence: parsed.recurrence ? [parsed.recurrence] : undefined,
+  ...(parsed.allDay
+    ? {
+        start: { date: toLocalDate(parsed.start) },
+        end: { date: toLocalDate(parsed.end) }
+      }
+    : {
+        start: { dateTime: toLocalDateTime(parsed.start), timeZone },
+        end: { dateTime: toLocalDateTime(parsed.end), timeZone }
+      })
+})
+
+export const parseCalendarEvents = (
+  text: string,
+  now = new Date(),
+  timeZone?: string,
+  defaults = DEFAULTS
+): CalendarEvent[] =>
+  parseEventText(text, now, defaults).map((parsed) =>
+    parsedToCalendarEvent(parsed, timeZone)
+  )
+
+/**
+ * Cross-checks model output against the rule-based parser. When the request
+ * is a single event with an explicit date and time, the parser's reading
+ * wins over the model's for start (and end, when the text gives one);
+ * the model's duration is kept otherwise.
+ */
+export const reconcileEventTimes = (
+  events: CalendarEvent[],
+  text: string,
+  now = new Date()
+): CalendarEvent[] => {
+  const parsed = parseEventText(text, now)
+  if (events.length !== 1 || parsed.length !== 1) return events
+
+  const [evt] = events
+  const [rule] = parsed
+  // A guessed hour ("at 7") is no better than the model's reading
+  if (!rule.hasDate || !rule.hasExactTime || !evt.start.dateTime) return events
+
+  const modelStart = Date.parse(evt.start.dateTime)
+  const modelEnd = Date.parse(evt.end.dateTime)
+  const modelDuration = modelEnd - modelStart
+
+  const start = rule.start
+  const end =
+    rule.hasEnd || !(modelDuration > 0)
+      ? rule.end
+      : new Date(start.getTime() + modelDuration)
+
+  if (modelStart === start.getTime() && modelEnd === end.getTime()) {
+    return events
+  }
+
+  console.warn("Model times disagree with request, using parsed times", {
+    model: { start: evt.start.dateTime, end: evt.end.dateTime },
+    parsed: { start, end }
+  })
+
+  return [
+    {
+      ...evt,
+      start: { ...evt.start, dateTime: toLocalDateTime(start) },
+      end: { ...evt.end, dateTime: toLocalDateTime(end) }
+    }
+  ]
+}
+
+/** The calendar named in phrases like "on the team calendar", if any. */
+export const findCalendarHint = (
+  text: string,
+  calendars: CalendarListEntry[]
+) => {
+  const match = text.match(CALENDAR_RE)
+  return match ? matchCalendar(match[1], calendars) : undefined
+}
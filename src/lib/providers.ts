@@ -0,0 +1,87 @@
+import type { PromptFn } from "./extraction"
+import { sendToBackground } from "./messages"
+import type { AIPreference, RemoteModelConfig } from "./storage"
+
+export type ProviderKind = "on-device" | "remote"
+
+export interface ModelProvider {
+  kind: ProviderKind
+  prompt: PromptFn
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export const providerKindFor = (preference: AIPreference): ProviderKind =>
+  preference === "fast" ? "remote" : "on-device"
+
+/**
+ * Calls an OpenAI-compatible `/chat/completions` endpoint (OpenAI, llama.cpp
+ * server, Ollama, ...). Runs in the background script, which holds the host
+ * permissions; other contexts should use `chatCompletion`.
+ */
+export const chatCompletionDirect = async (
+  config: RemoteModelConfig,
+  messages: ChatMessage[]
+): Promise<string> => {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      temperature: 0
+    })
+  })
+
+  if (!response.ok) {
+    let message = response.statusText
+    try {
+      const error = await response.json()
+      message = error.error?.message || error.error || message
+    } catch (e) {
+      // Not JSON, keep the status text
+    }
+    throw new Error(`Model server error (${response.status}): ${message}`)
+  }
+
+  const data = await response.json()
+  const content = data.choices?.[0]?.message?.content
+  if (typeof content !== "string") {
+    throw new Error("Model server returned no completion")
+  }
+  return content
+}
+
+export const chatCompletion = (
+  config: RemoteModelConfig,
+  messages: ChatMessage[]
+): Promise<string> => sendToBackground("CHAT_COMPLETION", { config, messages })
+
+export const createOnDeviceProvider = (prompt: PromptFn): ModelProvider => ({
+  kind: "on-device",
+  prompt
+})
+
+/**
+ * Remote prompts are stateless: every call sends the system prompt and a
+ * single user turn. The extraction repair prompt carries its own context.
+ */
+export const createRemoteProvider = (
+  config: RemoteModelConfig,
+  systemPrompt: string
+): ModelProvider => ({
+  kind: "remote",
+  prompt: (input) =>
+    chatCompletion(config, [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: input }
+    ])
+})
@@ -0,0 +1,268 @@
+// RFC 5545 recurrence rules, as accepted by the Calendar API's `recurrence`
+// field (e.g. "RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20241220").
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY"
+
+export interface RecurrenceRule {
+  freq: Frequency
+  interval?: number
+  count?: number
+  until?: string
+  byDay?: string[]
+  byMonthDay?: number[]
+  byMonth?: number[]
+}
+
+export const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+
+const WEEKDAY_LABELS: Record<string, string> = {
+  SU: "Sun",
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat"
+}
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]
+const FREQUENCY_UNITS: Record<Frequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year"
+}
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly"
+}
+
+const BY_DAY_RE = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/
+const UNTIL_RE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/
+const WORKWEEK = ["MO", "TU", "WE", "TH", "FR"]
+
+const parsePositiveInt = (value: string) =>
+  /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null
+
+const parseIntList = (value: string, min: number, max: number) => {
+  const numbers = value.split(",").map((part) => Number(part))
+  return numbers.every(
+    (n) => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && n <= max
+  )
+    ? numbers
+    : null
+}
+
+export const parseUntil = (value: string): Date | null => {
+  const match = value.match(UNTIL_RE)
+  if (!match) return null
+  const [, y, m, d, hh, mm, ss] = match
+  const date = match[4]
+    ? new Date(
+        Date.UTC(
+          Number(y),
+          Number(m) - 1,
+          Number(d),
+          Number(hh),
+          Number(mm),
+          Number(ss)
+        )
+      )
+    : new Date(Number(y), Number(m) - 1, Number(d))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Parses a single RRULE, with or without the "RRULE:" prefix. Only the parts
+ * Lanner generates and displays are accepted; anything else is reported.
+ */
+export const parseRRule = (
+  value: string
+): { rule?: RecurrenceRule; error?: string } => {
+  const body = value
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .toUpperCase()
+  if (!body) return { error: "is empty" }
+
+  const parts = new Map<string, string>()
+  for (const part of body.split(";").filter(Boolean)) {
+    const [key, val] = part.split("=")
+    if (!key || val === undefined || val === "") {
+      return { error: `has a malformed part "${part}"` }
+    }
+    if (parts.has(key)) return { error: `repeats ${key}` }
+    parts.set(key, val)
+  }
+
+  const freq = parts.get("FREQ") as Frequency | undefined
+  if (!freq) return { error: "is missing FREQ" }
+  if (!FREQUENCIES.includes(freq)) {
+    return { error: `has unsupported FREQ "${freq}"` }
+  }
+
+  const rule: RecurrenceRule = { freq }
+
+  for (const [key, val] of Array.from(parts)) {
+    switch (key) {
+      case "FREQ":
+        break
+      case "INTERVAL":
+      case "COUNT": {
+        const n = parsePositiveInt(val)
+        if (n === null) return { error: `has invalid ${key} "${val}"` }
+        if (key === "INTERVAL") rule.interval = n
+        else rule.count = n
+        break
+      }
+      case "UNTIL":
+        if (!parseUntil(val)) return { error: `has invalid UNTIL "${val}"` }
+        rule.until = val
+        break
+      case "BYDAY": {
+        const days = val.split(",")
+        if (!days.every((day) => BY_DAY_RE.test(day))) {
+          return { error: `has invalid BYDAY "${val}"` }
+        }
+        rule.byDay = days
+        break
+      }
+      case "BYMONTHDAY": {
+        const days = parseIntList(val, 1, 31)
+        if (!days) return { error: `has invalid BYMONTHDAY "${val}"` }
+        rule.byMonthDay = days
+        break
+      }
+      case "BYMONTH": {
+        const months = parseIntList(val, 1, 12)
+        if (!months || months.some((m) => m < 0)) {
+          return { error: `has invalid BYMONTH "${val}"` }
+        }
+        rule.byMonth = months
+        break
+      }
+      default:
+        return { error: `has unsupported part ${key}` }
+    }
+  }
+
+  if (rule.count && rule.until) {
+    return { error: "must not contain both COUNT and UNTIL" }
+  }
+
+  return { rule }
+}
+
+export const formatRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval && rule.interval > 1)
+    parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(",")}`)
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`)
+  }
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`)
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until}`)
+  return `RRULE:${parts.join(";")}`
+}
+
+/** Returns the canonical "RRULE:..." form, or null when invalid. */
+export const normalizeRRule = (value: string) => {
+  const { rule } = parseRRule(value)
+  return rule ? formatRRule(rule) : null
+}
+
+/** Formats a local date as an RFC 5545 UNTIL date (YYYYMMDD). */
+export const toUntilDate = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, "0")}${String(
+    date.getDate()
+  ).padStart(2, "0")}`
+
+/**
+ * RFC 5545 requires UNTIL to be a UTC date-time when the event has a time.
+ * Date-only values (as the model and parser produce) are widened to the end
+ * of that local day.
+ */
+export const toTimedUntil = (rrule: string) =>
+  rrule.replace(/UNTIL=(\d{8})(?=;|$)/i, (_, value: string) => {
+    const date = parseUntil(value)
+    if (!date) return `UNTIL=${value}`
+    const endOfDay = new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      23,
+      59,
+      59
+    )
+    return `UNTIL=${endOfDay.toISOString().replace(/[-:]|\.\d{3}/g, "")}`
+  })
+
+const ordinal = (n: number) => {
+  if (n === -1) return "last"
+  const suffix =
+    n % 100 >= 11 && n % 100 <= 13
+      ? "th"
+      : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[n % 10] ||
+        "th"
+  return `${n}${suffix}`
+}
+
+const describeByDay = (day: string) => {
+  const match = day.match(BY_DAY_RE)
+  if (!match) return day
+  const label = WEEKDAY_LABELS[match[2]]
+  return match[1] ? `the ${ordinal(Number(match[1]))} ${label}` : label
+}
+
+/**
+ * Human-readable summary of a recurrence rule,
+ * e.g. "Weekly on Mon, until Dec 20" or "Every 2 weeks on Tue, Thu, 6 times".
+ */
+export const describeRecurrence = (recurrence?: string[]) => {
+  const rrule = recurrence?.find((line) => /^RRULE:/i.test(line))
+  if (!rrule) return undefined
+
+  const { rule } = parseRRule(rrule)
+  if (!rule) return undefined
+
+  const interval = rule.interval || 1
+  const isWorkweek =
+    rule.freq === "WEEKLY" &&
+    interval === 1 &&
+    rule.byDay?.length === WORKWEEK.length &&
+    WORKWEEK.every((day) => rule.byDay?.includes(day))
+
+  let text = isWorkweek
+    ? "Every weekday"
+    : interval > 1
+      ? `Every ${interval} ${FREQUENCY_UNITS[rule.freq]}s`
+      : FREQUENCY_LABELS[rule.freq]
+
+  if (!isWorkweek && rule.byDay?.length) {
+    text += ` on ${rule.byDay.map(describeByDay).join(", ")}`
+  } else if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay
+      .map((day) => (day === -1 ? "last" : String(day)))
+      .join(", ")}`
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`
+  } else if (rule.until) {
+    const until = parseUntil(rule.until)
+    if (until) {
+      const sameYear = until.getFullYear() === new Date().getFullYear()
+      text += `, until ${until.toLocaleDateString([], {
+        month: "short",
+        day: "numeric",
+        ...(sameYear ? {} : { year: "numeric" })
+      })}`
+    }
+  }
+
+  return text
+}
@@ -0,0 +1,341 @@
+import {
+  canWrite,
+  queryFreeBusy,
+  type CalendarEvent,
+  type CalendarListEntry
+} from "./calendar"
+import {
+  findShortcut,
+  getMentionShortcuts,
+  shortcutAttendees
+} from "./contactGroups"
+import { getContacts, resolveContact, type Contact } from "./contacts"
+import { toLocalDateTime } from "./dates"
+import { extractEvents, type PromptFn } from "./extraction"
+import { parseCalendarEvents, parseEventText } from "./parser"
+import { DEFAULT_USER_CONFIG, type WorkingHours } from "./storage"
+
+// "Find a time" mode: instead of taking a time from the request, look up
+// when the user and the mentioned attendees are all free and suggest slots.
+
+export const DEFAULT_WORKING_HOURS = DEFAULT_USER_CONFIG.workingHours
+
+export interface SuggestedSlot {
+  start: Date
+  end: Date
+}
+
+export interface SchedulingRequest {
+  durationMinutes: number
+  windowStart: Date
+  windowEnd: Date
+  attendees: string[]
+  // Mentions that didn't match exactly one contact
+  unresolved: string[]
+}
+
+export interface SchedulingPlan {
+  // The event to create, minus its time
+  event: CalendarEvent
+  slots: SuggestedSlot[]
+  // Attendees whose free/busy couldn't be read
+  unknownAvailability: string[]
+  unresolved: string[]
+}
+
+export const SCHEDULING_RE =
+  /\b(?:sometime|some time|find (?:a |some |a good )?(?:time|slot)|whenever|any ?time|when(?:ever)? (?:we|they|everyone|both|all)(?:'re| are) free)\b/i
+
+const DURATION_RE =
+  /\b(?:for\s+)?(half an|an?|\d+(?:\.\d+)?)[\s-]*(hours?|hrs?|h|minutes?|mins?|m)\b/i
+const NAMED_MENTION_RE = /@([^@<>\n]+?)\s*<([^<>\s]+@[^<>\s]+)>/g
+const BARE_MENTION_RE = /@([\w.-]+)/g
+const THIS_WEEK_RE = /\b(?:this|the rest of the) week\b/i
+const NEXT_WEEK_RE = /\bnext week\b/i
+
+const DEFAULT_DURATION_MINUTES = 30
+const DEFAULT_WINDOW_DAYS = 7
+const SLOT_STEP_MINUTES = 30
+const MAX_SLOTS = 5
+const MAX_SLOTS_PER_DAY = 2
+const LUNCH_HOUR = 12
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const isSchedulingRequest = (text: string) => SCHEDULING_RE.test(text)
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+const parseDurationMinutes = (text: string) => {
+  const match = text.match(DURATION_RE)
+  if (!match) return DEFAULT_DURATION_MINUTES
+  const raw = match[1].toLowerCase()
+  const amount = raw === "half an" ? 0.5 : raw.startsWith("a") ? 1 : Number(raw)
+  return Math.round(
+    match[2].toLowerCase().startsWith("h") ? amount * 60 : amount
+  )
+}
+
+const parseWindow = (text: string, now: Date) => {
+  const today = startOfDay(now)
+
+  if (NEXT_WEEK_RE.test(text)) {
+    // Monday to Sunday of next week
+    const monday = addDays(today, (8 - today.getDay()) % 7 || 7)
+    return { windowStart: monday, windowEnd: addDays(monday, 7) }
+  }
+  if (THIS_WEEK_RE.test(text)) {
+    const nextMonday = addDays(today, (8 - today.getDay()) % 7 || 7)
+    return { windowStart: now, windowEnd: nextMonday }
+  }
+
+  const [parsed] = parseEventText(text.replace(DURATION_RE, " "), now)
+  if (parsed?.hasDate) {
+    const day = startOfDay(parsed.start)
+    return {
+      windowStart: day < now ? now : day,
+      windowEnd: parsed.allDay ? parsed.end : addDays(day, 1)
+    }
+  }
+
+  return {
+    windowStart: now,
+    windowEnd: addDays(today, DEFAULT_WINDOW_DAYS + 1)
+  }
+}
+
+/**
+ * Reads duration, search window and attendees from a scheduling request.
+ * "Alice <alice@example.com>" carries its email; bare "@Alice" mentions
+ * are resolved against the user's groups, aliases and contacts.
+ */
+export const parseSchedulingRequest = async (
+  text: string,
+  now = new Date()
+): Promise<SchedulingRequest> => {
+  const attendees = new Set<string>()
+  const unresolved: string[] = []
+
+  for (const match of text.matchAll(NAMED_MENTION_RE)) {
+    attendees.add(match[2])
+  }
+
+  const bare = Array.from(
+    text.replace(NAMED_MENTION_RE, " ").matchAll(BARE_MENTION_RE),
+    (match) => match[1]
+  )
+  if (bare.length > 0) {
+    const [contacts, shortcuts] = await Promise.all([
+      getContacts(),
+      getMentionShortcuts()
+    ])
+    for (const name of bare) {
+      // "@eng-team" and "@mom" before contact names
+      const shortcut = findShortcut(name.replace(/\.+$/, ""), shortcuts)
+      if (shortcut) {
+        shortcutAttendees(shortcut).forEach((att) => attendees.add(att.email))
+        continue
+      }
+      const contact = resolveContact(name, contacts)
+      if (contact) attendees.add(contact.email)
+      else unresolved.push(name)
+    }
+  }
+
+  return {
+    durationMinutes: parseDurationMinutes(text),
+    ...parseWindow(text, now),
+    attendees: Array.from(attendees),
+    unresolved
+  }
+}
+
+const overlapsAny = (slot: SuggestedSlot, busy: SuggestedSlot[]) =>
+  busy.some(
+    (interval) => slot.start < interval.end && interval.start < slot.end
+  )
+
+// Lower is better: sooner days first, mid-morning and early afternoon over
+// the edges of the day and lunch
+const scoreSlot = (
+  slot: SuggestedSlot,
+  windowStart: Date,
+  hours: WorkingHours
+) => {
+  const days = Math.floor(
+    (startOfDay(slot.start).getTime() - startOfDay(windowStart).getTime()) /
+      DAY_MS
+  )
+  const startHour = slot.start.getHours() + slot.start.getMinutes() / 60
+  const endHour = slot.end.getHours() + slot.end.getMinutes() / 60
+
+  let score = days
+  if (startHour < LUNCH_HOUR + 1 && endHour > LUNCH_HOUR) score += 1
+  if (startHour === hours.startHour || endHour === hours.endHour) score += 0.5
+  if (slot.start.getMinutes() !== 0) score += 0.25
+  return score
+}
+
+/**
+ * Free slots within working hours, ranked and spread over several days so
+ * the user gets real alternatives rather than five back-to-back options.
+ */
+export const suggestSlots = (
+  request: Pick<
+    SchedulingRequest,
+    "durationMinutes" | "windowStart" | "windowEnd"
+  >,
+  busy: SuggestedSlot[],
+  hours: WorkingHours = DEFAULT_WORKING_HOURS,
+  now = new Date()
+): SuggestedSlot[] => {
+  const duration = request.durationMinutes * 60 * 1000
+  const step = SLOT_STEP_MINUTES * 60 * 1000
+  const earliest = Math.max(request.windowStart.getTime(), now.getTime())
+
+  const candidates: { slot: SuggestedSlot; score: number }[] = []
+  for (
+    let day = startOfDay(request.windowStart);
+    day < request.windowEnd;
+    day = addDays(day, 1)
+  ) {
+    if (!hours.days.includes(day.getDay())) continue
+
+    const dayStart = new Date(day).setHours(hours.startHour, 0, 0, 0)
+    const dayEnd = new Date(day).setHours(hours.endHour, 0, 0, 0)
+    const first = Math.max(dayStart, Math.ceil(earliest / step) * step)
+
+    for (let start = first; start + duration <= dayEnd; start += step) {
+      const slot = { start: new Date(start), end: new Date(start + duration) }
+      if (slot.end > request.windowEnd || overlapsAny(slot, busy)) continue
+      candidates.push({
+        slot,
+        score: scoreSlot(slot, request.windowStart, hours)
+      })
+    }
+  }
+
+  candidates.sort(
+    (a, b) =>
+      a.score - b.score || a.slot.start.getTime() - b.slot.start.getTime()
+  )
+
+  const picked: SuggestedSlot[] = []
+  for (const { slot } of candidates) {
+    const day = startOfDay(slot.start).getTime()
+    const onSameDay = picked.filter(
+      (p) => startOfDay(p.start).getTime() === day
+    )
+    const tooClose = onSameDay.some(
+      (p) => Math.abs(p.start.getTime() - slot.start.getTime()) < 2 * step
+    )
+    if (onSameDay.length >= MAX_SLOTS_PER_DAY || tooClose) continue
+
+    picked.push(slot)
+    if (picked.length === MAX_SLOTS) break
+  }
+
+  // Not enough spread-out options: fill up with the best remaining ones
+  for (const { slot } of candidates) {
+    if (picked.length >= MAX_SLOTS) break
+    if (!picked.includes(slot)) picked.push(slot)
+  }
+
+  return picked.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/** `event` moved to `slot`. */
+export const applySlot = (
+  event: CalendarEvent,
+  slot: SuggestedSlot,
+  timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+): CalendarEvent => ({
+  ...event,
+  start: { dateTime: toLocalDateTime(slot.start), timeZone },
+  end: { dateTime: toLocalDateTime(slot.end), timeZone }
+})
+
+const defaultTitle = (text: string) => {
+  const [parsed] = parseCalendarEvents(
+    text
+      .replace(NAMED_MENTION_RE, (_, name: string) => name)
+      .replace(SCHEDULING_RE, " ")
+      .replace(DURATION_RE, " ")
+  )
+  const title = parsed?.summary || "Meeting"
+  return /^with\b/i.test(title) ? `Meeting w${title.slice(1)}` : title
+}
+
+/**
+ * Builds a scheduling plan: the event details (from the model when
+ * available) plus ranked slots when everyone, including the `invited`
+ * contacts, is free. The user counts as busy on any of their writable
+ * `calendars` in account `accountId`, not just the primary one.
+ */
+export const planScheduling = async (
+  prompt: PromptFn | null,
+  input: string,
+  now = new Date(),
+  hours: WorkingHours = DEFAULT_WORKING_HOURS,
+  invited: Contact[] = [],
+  calendars: CalendarListEntry[] = [],
+  accountId?: string
+): Promise<SchedulingPlan> => {
+  const request = await parseSchedulingRequest(input, now)
+
+  // The model only supplies the details here; its time is replaced by a slot
+  const [modelEvent] = prompt
+    ? await extractEvents(prompt, input, { invited }).catch((e) => {
+        console.warn("Falling back to parsed event details", e)
+        return [] as CalendarEvent[]
+      })
+    : []
+  const attendees = new Set([
+    ...request.attendees,
+    ...invited.map((contact) => contact.email),
+    ...(modelEvent?.attendees || []).map((att) => att.email)
+  ])
+
+  // The user's other calendars only add busy times; they aren't reported
+  // as unknown availability
+  const ownCalendarIds = calendars
+    .filter((calendar) => !calendar.primary && canWrite(calendar))
+    .map((calendar) => calendar.id)
+  const calendarIds = ["primary", ...Array.from(attendees)]
+  const freeBusy = await queryFreeBusy({
+    accountId,
+    timeMin: request.windowStart.toISOString(),
+    timeMax: request.windowEnd.toISOString(),
+    calendarIds: Array.from(new Set([...calendarIds, ...ownCalendarIds]))
+  })
+
+  const busy = Object.values(freeBusy)
+    .flat()
+    .map((interval) => ({
+      start: new Date(interval.start),
+      end: new Date(interval.end)
+    }))
+
+  const event: CalendarEvent = {
+    summary: modelEvent?.summary || defaultTitle(input),
+    location: modelEvent?.location,
+    description: modelEvent?.description,
+    attendeeNames: modelEvent?.attendeeNames,
+    attendees: attendees.size
+      ? Array.from(attendees).map((email) => ({ email }))
+      : undefined,
+    start: {},
+    end: {}
+  }
+
+  return {
+    event,
+    slots: suggestSlots(request, busy, hours, now),
+    unknownAvailability: calendarIds.filter((id) => !(id in freeBusy)),
+    unresolved: request.unresolved
+  }
+}
@@ -1,22 +1,233 @@
+import { z } from "zod"
+
 export type AIPreference = "safe" | "fast" | null
 
+// OpenAI-compatible chat completions endpoint used by the "fast" preference
+export interface RemoteModelConfig {
+  baseUrl: string
+  model: string
+  apiKey?: string
+}
+
+export const DEFAULT_REMOTE_MODEL: RemoteModelConfig = {
+  baseUrl: "http://localhost:11434/v1",
+  model: "llama3.2"
+}
+
+// Hours "find a time" suggests slots in
+export interface WorkingHours {
+  startHour: number
+  endHour: number
+  // Days of the week, 0 = Sunday
+  days: number[]
+}
+
+// Day an event goes on when the request names none
+export type DefaultDay = "today" | "tomorrow"
+
 export interface UserConfig {
   aiPreference: AIPreference
   onboardingCompleted: boolean
+  remoteModel?: RemoteModelConfig
+  // Calendar new events go to unless the request names another, per account email
+  defaultCalendarIds?: Record<string, string>
+  // Length of events whose request gives no end time or duration
+  defaultDurationMinutes: number
+  defaultDay: DefaultDay
+  // Put in front of the titles of events Lanner creates; "" for none
+  titlePrefix: string
+  // Invite the signed-in user to the events they create
+  addSelfAsAttendee: boolean
+  // BCP 47 language of voice input, e.g. "en-US"
+  speechLanguage: string
+  workingHours: WorkingHours
 }
 
+export const DEFAULT_USER_CONFIG: UserConfig = {
+  aiPreference: null,
+  onboardingCompleted: false,
+  defaultDurationMinutes: 60,
+  defaultDay: "tomorrow",
+  titlePrefix: "📔 ",
+  addSelfAsAttendee: true,
+  speechLanguage: "en-US",
+  workingHours: { startHour: 9, endHour: 17, days: [1, 2, 3, 4, 5] }
+}
+
+// Every key Lanner keeps in chrome.storage.local. Keys marked per account
+// are stored as "<key>:<email>", see accountKey.
 export const StorageKeys = {
-  USER_CONFIG: "user_config"
+  STORAGE_VERSION: "storage_version",
+  USER_CONFIG: "user_config",
+  RECENT_CHANGES: "recent_changes",
+  ACCOUNTS: "accounts",
+  ACTIVE_ACCOUNT: "active_account",
+  OUTBOX: "outbox",
+  MENTION_SHORTCUTS: "mention_shortcuts",
+  EVENT_TEMPLATES: "event_templates",
+  REQUEST_HISTORY: "request_history",
+  MODEL_RESTART_REQUIRED: "model_restart_required",
+  // Per account; Chrome's own account uses the bare key
+  AUTH_TOKEN: "lanner_auth_token",
+  // Per account
+  CONTACTS_CACHE: "lanner_contacts_cache",
+  CONTACT_INVITES: "lanner_contact_invites",
+  CONTACT_GROUPS: "lanner_contact_groups"
+} as const
+
+/** Storage key for `key` scoped to one account. */
+export const accountKey = (key: string, email?: string) =>
+  email ? `${key}:${email}` : key
+
+// Migrations bring storage written by older versions up to date, in order.
+// The one at index i moves storage from version i to i + 1. They run once
+// per context before the first read and must be safe to run twice, since
+// the background, popup and overlays can start at the same time.
+type Migration = (data: Record<string, any>) => { set?: Record<string, any>; remove?: string[] }
+
+const MIGRATIONS: Migration[] = [
+  // 0 -> 1: the model download flag gets a registered key; the config's
+  // own version field is superseded by the storage version
+  (data) => {
+    const set: Record<string, any> = {}
+    if ("restartRequired" in data) set[StorageKeys.MODEL_RESTART_REQUIRED] = !!data.restartRequired
+    if (data[StorageKeys.USER_CONFIG]?.version !== undefined) {
+      const { version: _version, ...config } = data[StorageKeys.USER_CONFIG]
+      set[StorageKeys.USER_CONFIG] = config
+    }
+    return { set, remove: ["restartRequired"] }
+  }
+]
+
+export const STORAGE_VERSION = MIGRATIONS.length
+
+let migration: Promise<void> | undefined
+
+/** Runs pending migrations; later calls wait for the same run. */
+export const migrateStorage = () => {
+  migration ||= (async () => {
+    const data = await chrome.storage.local.get()
+    const from = Number(data[StorageKeys.STORAGE_VERSION]) || 0
+    for (let version = from; version < STORAGE_VERSION; version++) {
+      const { set = {}, remove = [] } = MIGRATIONS[version](data)
+      if (remove.length) await chrome.storage.local.remove(remove)
+      remove.forEach((key) => delete data[key])
+      await chrome.storage.local.set({ ...set, [StorageKeys.STORAGE_VERSION]: version + 1 })
+      Object.assign(data, set)
+    }
+  })().catch((e) => {
+    // Let the next read try again
+    migration = undefined
+    throw e
+  })
+  return migration
+}
+
+/** One typed value in storage, validated on read. */
+export interface StorageItem<T> {
+  key: string
+  fallback: T
+  get: () => Promise<T>
+  set: (value: T) => Promise<void>
+  update: (change: (value: T) => T) => Promise<T>
+  remove: () => Promise<void>
+  // Calls `listener` with the new value whenever any context changes it
+  watch: (listener: (value: T) => void) => () => void
+}
+
+/**
+ * Declares the value under `key`. Missing values read as `fallback`, and so
+ * do values that don't match `schema`, e.g. ones written by a newer version.
+ */
+export const defineItem = <T>(key: string, schema: z.ZodType<T>, fallback: T): StorageItem<T> => {
+  // A copy, so callers can't change the fallback for everyone
+  const parse = (value: unknown): T => {
+    if (value === undefined) return structuredClone(fallback)
+    const result = schema.safeParse(value)
+    if (result.success) return result.data
+    console.warn(`Ignoring invalid "${key}" in storage:\n${z.prettifyError(result.error)}`)
+    return structuredClone(fallback)
+  }
+
+  const get = async () => {
+    await migrateStorage()
+    const result = await chrome.storage.local.get(key)
+    return parse(result[key])
+  }
+
+  const set = async (value: T) => {
+    await chrome.storage.local.set({ [key]: value })
+  }
+
+  return {
+    key,
+    fallback,
+    get,
+    set,
+    update: async (change) => {
+      const value = change(await get())
+      await set(value)
+      return value
+    },
+    remove: () => chrome.storage.local.remove(key),
+    watch: (listener) => {
+      const handleChange = (changed: Record<string, chrome.storage.StorageChange>, area: string) => {
+        if (area === "local" && changed[key]) listener(parse(changed[key].newValue))
+      }
+      chrome.storage.onChanged.addListener(handleChange)
+      return () => chrome.storage.onChanged.removeListener(handleChange)
+    }
+  }
 }
 
-export const getUserConfig = async (): Promise<UserConfig> => {
-  const result = await chrome.storage.local.get(StorageKeys.USER_CONFIG)
-  return result[StorageKeys.USER_CONFIG] || { aiPreference: null, onboardingCompleted: false }
+/** Like defineItem, with one value per account under accountKey(key, email). */
+export const defineAccountItem = <T>(key: string, schema: z.ZodType<T>, fallback: T) => {
+  const items = new Map<string, StorageItem<T>>()
+  return (email?: string) => {
+    const scoped = accountKey(key, email)
+    if (!items.has(scoped)) items.set(scoped, defineItem(scoped, schema, fallback))
+    return items.get(scoped)
+  }
 }
 
-export const saveUserConfig = async (config: Partial<UserConfig>) => {
-  const current = await getUserConfig()
-  const updated = { ...current, ...config }
-  await chrome.storage.local.set({ [StorageKeys.USER_CONFIG]: updated })
-  return updated
+/** Drops every per-account value stored for `email`. */
+export const removeAccountItems = async (email: string) => {
+  const all = await chrome.storage.local.get()
+  await chrome.storage.local.remove(Object.keys(all).filter((key) => key.endsWith(`:${email}`)))
 }
+
+// Each setting falls back to its default on its own, so one bad value
+// doesn't reset the rest
+const withDefault = <T extends z.ZodType>(schema: T, value: z.output<T>) => schema.catch(value)
+
+// Hours that end before they start fall back to the default too
+const workingHoursSchema = z
+  .object({
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(1).max(24),
+    days: z.array(z.number().int().min(0).max(6))
+  })
+  .refine((hours) => hours.endHour > hours.startHour, { message: "endHour must be after startHour" })
+
+const userConfigSchema = z.looseObject({
+  aiPreference: withDefault(z.enum(["safe", "fast"]).nullable(), null),
+  onboardingCompleted: withDefault(z.boolean(), false),
+  remoteModel: z.object({ baseUrl: z.string(), model: z.string(), apiKey: z.string().optional() }).optional().catch(undefined),
+  defaultCalendarIds: z.record(z.string(), z.string()).optional().catch(undefined),
+  defaultDurationMinutes: withDefault(z.number().int().min(5).max(24 * 60), DEFAULT_USER_CONFIG.defaultDurationMinutes),
+  defaultDay: withDefault(z.enum(["today", "tomorrow"]), DEFAULT_USER_CONFIG.defaultDay),
+  titlePrefix: withDefault(z.string(), DEFAULT_USER_CONFIG.titlePrefix),
+  addSelfAsAttendee: withDefault(z.boolean(), DEFAULT_USER_CONFIG.addSelfAsAttendee),
+  speechLanguage: withDefault(z.string().min(1), DEFAULT_USER_CONFIG.speechLanguage),
+  workingHours: withDefault(workingHoursSchema, DEFAULT_USER_CONFIG.workingHours)
+})
+
+// Every setting has a catch value, so a parsed config is always complete
+export const userConfigItem = defineItem(StorageKeys.USER_CONFIG, userConfigSchema as z.ZodType<UserConfig>, DEFAULT_USER_CONFIG)
+
+export const modelRestartRequiredItem = defineItem(StorageKeys.MODEL_RESTART_REQUIRED, z.boolean(), false)
+
+export const getUserConfig = (): Promise<UserConfig> => userConfigItem.get()
+
+export const saveUserConfig = (config: Partial<UserConfig>) =>
+  userConfigItem.update((current) => ({ ...current, ...config }))
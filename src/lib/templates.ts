@@ -0,0 +1,193 @@
+import { z } from "zod"
+
+import type { CalendarEvent } from "./calendar"
+import { toLocalDateTime } from "./dates"
+import { defineItem, StorageKeys } from "./storage"
+
+// Presets for events the user makes all the time. A template is triggered
+// by its keyword anywhere in a request ("1:1 with Ryan"), or by "/keyword"
+// picked in the composer, and fills in what the request leaves out.
+
+export interface EventTemplate {
+  id: string
+  // Matched as a whole word, case-insensitively; no spaces
+  keyword: string
+  // Title for requests that only use the slash command, e.g. "/gym 7am"
+  title?: string
+  durationMinutes?: number
+  location?: string
+  description?: string
+  // Emails invited to every event made from the template
+  attendees?: string[]
+  // Google Calendar event color, see EVENT_COLORS
+  colorId?: string
+  addMeet?: boolean
+}
+
+export interface TemplateMatch {
+  template: EventTemplate
+  index: number
+  // Typed as "/keyword"
+  isCommand: boolean
+}
+
+// Google Calendar's event colors by colorId
+export const EVENT_COLORS: Record<string, { name: string; hex: string }> = {
+  "1": { name: "Lavender", hex: "#7986cb" },
+  "2": { name: "Sage", hex: "#33b679" },
+  "3": { name: "Grape", hex: "#8e24aa" },
+  "4": { name: "Flamingo", hex: "#e67c73" },
+  "5": { name: "Banana", hex: "#f6bf26" },
+  "6": { name: "Tangerine", hex: "#f4511e" },
+  "7": { name: "Peacock", hex: "#039be5" },
+  "8": { name: "Graphite", hex: "#616161" },
+  "9": { name: "Blueberry", hex: "#3f51b5" },
+  "10": { name: "Basil", hex: "#0b8043" },
+  "11": { name: "Tomato", hex: "#d50000" }
+}
+
+export const templatesItem = defineItem<EventTemplate[]>(
+  StorageKeys.EVENT_TEMPLATES,
+  z.array(
+    z.looseObject({
+      id: z.string(),
+      keyword: z.string().min(1),
+      title: z.string().optional(),
+      durationMinutes: z.number().int().positive().optional(),
+      location: z.string().optional(),
+      description: z.string().optional(),
+      attendees: z.array(z.string()).optional(),
+      colorId: z.string().optional(),
+      addMeet: z.boolean().optional()
+    })
+  ),
+  []
+)
+
+export const getTemplates = () => templatesItem.get()
+
+export const templateTitle = (template: EventTemplate) =>
+  template.title || template.keyword
+
+/** Templates offered for a "/query" typed in the composer. */
+export const matchingTemplates = (
+  templates: EventTemplate[],
+  query: string
+) => {
+  const q = query.toLowerCase()
+  return templates.filter(
+    (template) =>
+      template.keyword.toLowerCase().startsWith(q) ||
+      (template.title || "").toLowerCase().includes(q)
+  )
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// "gym" or "/gym", but not "gymnastics" or "#gym"
+const keywordRe = (keyword: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}_#@/-])(/?)${escapeRegExp(keyword)}(?![\\p{L}\\p{N}_-])`,
+    "iu"
+  )
+
+/** Templates triggered in `text`, in text order, once each. */
+export const findTemplates = (
+  text: string,
+  templates: EventTemplate[]
+): TemplateMatch[] =>
+  templates
+    .map((template) => {
+      const match = keywordRe(template.keyword).exec(text)
+      return (
+        match && { template, index: match.index, isCommand: match[1] === "/" }
+      )
+    })
+    .filter((match): match is TemplateMatch => !!match)
+    .sort((a, b) => a.index - b.index)
+
+/** Replaces "/keyword" commands with the template's title for planning. */
+export const expandTemplateCommands = (
+  text: string,
+  matches: TemplateMatch[]
+) =>
+  matches
+    .filter((match) => match.isCommand)
+    .reduce(
+      (expanded, { template }) =>
+        expanded.replace(keywordRe(template.keyword), (found, slash) =>
+          slash ? templateTitle(template) : found
+        ),
+      text
+    )
+
+/**
+ * The template an extracted event was made from: the one whose keyword or
+ * title is in its title, else the only one in the request.
+ */
+export const templateFor = (
+  event: CalendarEvent,
+  matches: TemplateMatch[]
+): EventTemplate | undefined => {
+  const inTitle = matches.find(
+    ({ template }) =>
+      keywordRe(template.keyword).test(event.summary) ||
+      (!!template.title && keywordRe(template.title).test(event.summary))
+  )
+  return (
+    inTitle?.template ??
+    (matches.length === 1 ? matches[0].template : undefined)
+  )
+}
+
+/**
+ * Fills in what `event` leaves out from `template`. The length is only
+ * changed when the request didn't give an end time or duration.
+ */
+export const applyTemplate = (
+  event: CalendarEvent,
+  template: EventTemplate,
+  keepLength = false
+): CalendarEvent => {
+  const attendees = [...(event.attendees || [])]
+  for (const email of template.attendees || []) {
+    if (
+      !attendees.some((att) => att.email.toLowerCase() === email.toLowerCase())
+    ) {
+      attendees.push({ email })
+    }
+  }
+
+  const end =
+    !keepLength && template.durationMinutes && event.start.dateTime
+      ? {
+          ...event.end,
+          dateTime: toLocalDateTime(
+            new Date(
+              Date.parse(event.start.dateTime) +
+                template.durationMinutes * 60 * 1000
+            )
+          )
+        }
+      : event.end
+
+  return {
+    ...event,
+    end,
+    location: event.location || template.location,
+    description: event.description || template.description,
+    attendees: attendees.length ? attendees : undefined,
+    colorId: event.colorId || template.colorId,
+    conferenceData:
+      event.conferenceData ||
+      (template.addMeet
+        ? {
+            createRequest: {
+              requestId: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+              conferenceSolutionKey: { type: "hangoutsMeet" }
+            }
+          }
+        : undefined)
+  }
+}
@@ -0,0 +1,164 @@
+import { z } from "zod"
+
+import {
+  calendarEventSchema,
+  deleteEvent,
+  updateEvent,
+  type CalendarEvent,
+  type EventDateTime,
+  type ExistingEvent
+} from "./calendar"
+import { defineItem, StorageKeys } from "./storage"
+
+// Changes Lanner made to the calendar, kept in storage so they can be
+// undone after the overlay or popup has closed.
+
+export type ChangeKind = "create" | "update"
+
+export interface ChangedEvent {
+  eventId: string
+  // Absent for changes recorded before calendars or accounts could be chosen
+  calendarId?: string
+  accountId?: string
+  summary: string
+  start: EventDateTime
+  // For updates: the patched fields as they were before
+  previous?: Partial<CalendarEvent>
+}
+
+export interface RecentChange {
+  id: string
+  kind: ChangeKind
+  timestamp: number
+  events: ChangedEvent[]
+  undone?: boolean
+}
+
+const MAX_RECENT_CHANGES = 20
+
+export const recentChangesItem = defineItem<RecentChange[]>(
+  StorageKeys.RECENT_CHANGES,
+  z.array(
+    z.looseObject({
+      id: z.string(),
+      kind: z.enum(["create", "update"]),
+      timestamp: z.number(),
+      events: z.array(
+        z.looseObject({
+          eventId: z.string(),
+          calendarId: z.string().optional(),
+          accountId: z.string().optional(),
+          summary: z.string(),
+          start: calendarEventSchema.shape.start,
+          previous: calendarEventSchema.partial().optional()
+        })
+      ),
+      undone: z.boolean().optional()
+    })
+  ),
+  []
+)
+
+export const getRecentChanges = (): Promise<RecentChange[]> =>
+  recentChangesItem.get()
+
+const saveRecentChanges = async (changes: RecentChange[]) => {
+  await recentChangesItem.set(changes.slice(0, MAX_RECENT_CHANGES))
+}
+
+const recordChange = async (kind: ChangeKind, events: ChangedEvent[]) => {
+  const change: RecentChange = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    timestamp: Date.now(),
+    events
+  }
+  await saveRecentChanges([change, ...(await getRecentChanges())])
+  return change
+}
+
+/** Records events created from one plan; returns null when there were none. */
+export const recordCreated = async (created: ExistingEvent[]) => {
+  if (created.length === 0) return null
+  return recordChange(
+    "create",
+    created.map((event) => ({
+      eventId: event.id,
+      calendarId: event.calendarId,
+      accountId: event.accountId,
+      summary: event.summary,
+      start: event.start
+    }))
+  )
+}
+
+/** Records an update along with the values `patch` replaced. */
+export const recordUpdated = async (
+  before: ExistingEvent,
+  patch: Partial<CalendarEvent>
+) => {
+  // null clears a field that didn't exist before
+  const previous = Object.fromEntries(
+    Object.keys(patch).map((key) => [
+      key,
+      before[key as keyof CalendarEvent] ?? null
+    ])
+  ) as Partial<CalendarEvent>
+  return recordChange("update", [
+    {
+      eventId: before.id,
+      calendarId: before.calendarId,
+      accountId: before.accountId,
+      summary: patch.summary || before.summary,
+      start: patch.start || before.start,
+      previous
+    }
+  ])
+}
+
+export const describeChange = (change: RecentChange) => {
+  if (change.kind === "update") return `Updated "${change.events[0]?.summary}"`
+  return change.events.length === 1
+    ? `Added "${change.events[0].summary}"`
+    : `Added ${change.events.length} events`
+}
+
+/**
+ * Reverts a recorded change through the background script: created events
+ * are deleted, updated ones patched back. Events that fail are kept so the
+ * undo can be retried.
+ */
+export const undoChange = async (changeId: string) => {
+  const changes = await getRecentChanges()
+  const change = changes.find((item) => item.id === changeId)
+  if (!change || change.undone) return
+
+  const results = await Promise.allSettled(
+    change.events.map((event) =>
+      change.kind === "create"
+        ? deleteEvent(event.eventId, event)
+        : updateEvent(event.eventId, event.previous || {}, event)
+    )
+  )
+  const remaining = change.events.filter(
+    (_, i) => results[i].status === "rejected"
+  )
+
+  const latest = await getRecentChanges()
+  await saveRecentChanges(
+    latest.map((item) =>
+      item.id === changeId
+        ? { ...item, events: remaining, undone: remaining.length === 0 }
+        : item
+    )
+  )
+
+  const failure = results.find(
+    (result): result is PromiseRejectedResult => result.status === "rejected"
+  )
+  if (failure) {
+    throw new Error(
+      `Couldn't undo ${remaining.length} of ${change.events.length} events: ${failure.reason?.message || failure.reason}`
+    )
+  }
+}
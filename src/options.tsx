@@ -0,0 +1,271 @@
+import { Check, Loader2 } from "lucide-react"
+import { useEffect, useState } from "react"
+
+import { CalendarSelect } from "~components/CalendarSelect"
+import { LannerAILogo } from "~components/LannerAILogo"
+import { TemplateSettings } from "~components/TemplateSettings"
+import { getUserConfig, saveUserConfig, type UserConfig } from "~lib/storage"
+import { useAccounts } from "./hooks/useAccounts"
+import { useCalendars } from "./hooks/useCalendars"
+import { useStorage } from "./hooks/useStorage"
+import { getAuthToken } from "./lib/googleApi"
+import { templatesItem } from "./lib/templates"
+import "./style.css"
+
+type EditableSettings = Pick<
+  UserConfig,
+  "defaultDurationMinutes" | "defaultDay" | "titlePrefix" | "addSelfAsAttendee" | "speechLanguage" | "workingHours"
+>
+
+// Only this page's fields, so saving doesn't overwrite config changed
+// elsewhere (e.g. the AI preference) since the page was opened
+const pickEditable = ({ defaultDurationMinutes, defaultDay, titlePrefix, addSelfAsAttendee, speechLanguage, workingHours }: EditableSettings): EditableSettings =>
+  ({ defaultDurationMinutes, defaultDay, titlePrefix, addSelfAsAttendee, speechLanguage, workingHours })
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour)
+const SPEECH_LANGUAGES = ["en-US", "en-GB", "de-DE", "es-ES", "fr-FR", "it-IT", "ja-JP", "ko-KR", "pt-BR", "zh-CN"]
+
+const inputClass = "bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-white/30 [color-scheme:dark]"
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`
+
+// The first problem with `settings`, if any
+const validate = (settings: EditableSettings): string | null => {
+  const { defaultDurationMinutes, workingHours, speechLanguage } = settings
+  if (!Number.isInteger(defaultDurationMinutes) || defaultDurationMinutes < 5 || defaultDurationMinutes > 24 * 60) {
+    return "Default length must be between 5 minutes and 24 hours"
+  }
+  if (workingHours.endHour <= workingHours.startHour) return "Working hours must end after they start"
+  if (workingHours.days.length === 0) return "Pick at least one working day"
+  if (!speechLanguage.trim()) return "Enter a voice input language, e.g. en-US"
+  return null
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-[10px] uppercase tracking-wider text-white/30">{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+function Row({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-6 px-4 py-3 rounded-xl bg-white/5 border border-white/5">
+      <div className="min-w-0">
+        <div className="text-sm text-white/90">{label}</div>
+        {hint && <div className="text-xs text-white/40">{hint}</div>}
+      </div>
+      <div className="shrink-0 flex items-center gap-2">{children}</div>
+    </div>
+  )
+}
+
+/** Settings for event defaults, working hours, voice input and templates. */
+function OptionsIndex() {
+  const [settings, setSettings] = useState<EditableSettings | null>(null)
+  const [calendarId, setCalendarId] = useState("primary")
+  const [isAuthenticated, setIsAuthenticated] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Saved as soon as they're added, apart from the form below
+  const templates = useStorage(templatesItem)
+
+  // The default calendar belongs to the active account
+  const accounts = useAccounts(isAuthenticated)
+  const activeEmail = accounts.activeAccount?.email
+  const { calendars, defaultCalendarId, changeDefault } = useCalendars(isAuthenticated, activeEmail)
+
+  useEffect(() => {
+    getUserConfig().then((config) => setSettings(pickEditable(config)))
+    getAuthToken(false)
+      .then(() => setIsAuthenticated(true))
+      .catch(() => setIsAuthenticated(false))
+  }, [])
+
+  useEffect(() => {
+    setCalendarId(defaultCalendarId)
+  }, [defaultCalendarId])
+
+  if (!settings) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center">
+        <Loader2 className="animate-spin text-white/20" />
+      </div>
+    )
+  }
+
+  const update = (changes: Partial<EditableSettings>) => {
+    setSettings({ ...settings, ...changes })
+    setSaved(false)
+    setError(null)
+  }
+
+  const updateHours = (changes: Partial<UserConfig["workingHours"]>) =>
+    update({ workingHours: { ...settings.workingHours, ...changes } })
+
+  const toggleDay = (day: number) => {
+    const { days } = settings.workingHours
+    updateHours({ days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b) })
+  }
+
+  const handleSave = async () => {
+    const problem = validate(settings)
+    if (problem) return setError(problem)
+
+    setIsSaving(true)
+    try {
+      await saveUserConfig(pickEditable({ ...settings, speechLanguage: settings.speechLanguage.trim() }))
+      if (calendarId !== defaultCalendarId) await changeDefault(calendarId)
+      setSaved(true)
+    } catch (e: any) {
+      setError(e.message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] text-white font-sans">
+      <div className="max-w-xl mx-auto px-6 py-10 space-y-8">
+        <header className="flex items-center gap-2 text-white/70 text-lg font-medium tracking-tight">
+          <LannerAILogo className="h-5 w-5" />
+          Lanner settings
+        </header>
+
+        <Section title="New events">
+          <Row label="Default length" hint="When the request gives no end time">
+            <input
+              type="number"
+              min={5}
+              max={24 * 60}
+              step={5}
+              className={`${inputClass} w-20 text-right`}
+              value={settings.defaultDurationMinutes}
+              onChange={(e) => update({ defaultDurationMinutes: e.target.valueAsNumber })}
+            />
+            <span className="text-xs text-white/40">min</span>
+          </Row>
+          <Row label="Day without a date" hint={'For requests like "Lunch at noon"'}>
+            <select
+              className={inputClass}
+              value={settings.defaultDay}
+              onChange={(e) => update({ defaultDay: e.target.value as UserConfig["defaultDay"] })}
+            >
+              <option value="today">Today</option>
+              <option value="tomorrow">Tomorrow</option>
+            </select>
+          </Row>
+          <Row label="Title prefix" hint="Marks events Lanner created; leave empty for none">
+            <input
+              className={`${inputClass} w-20`}
+              value={settings.titlePrefix}
+              onChange={(e) => update({ titlePrefix: e.target.value })}
+            />
+          </Row>
+          <Row label="Add me as an attendee" hint="Invite your own account to events you create">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-indigo-500"
+              checked={settings.addSelfAsAttendee}
+              onChange={(e) => update({ addSelfAsAttendee: e.target.checked })}
+            />
+          </Row>
+          {isAuthenticated && (
+            <Row label="Default calendar" hint={activeEmail ? `For ${activeEmail}` : undefined}>
+              {calendars.length < 2 ? (
+                <span className="text-xs text-white/40">Your calendar</span>
+              ) : (
+                <div className="w-48">
+                  <CalendarSelect calendars={calendars} value={calendarId} onChange={(id) => { setCalendarId(id); setSaved(false) }} />
+                </div>
+              )}
+            </Row>
+          )}
+        </Section>
+
+        <Section title="Working hours">
+          <Row label="Hours" hint={'"Find a time" only suggests slots in these hours'}>
+            <select
+              className={inputClass}
+              value={settings.workingHours.startHour}
+              onChange={(e) => updateHours({ startHour: Number(e.target.value) })}
+            >
+              {HOURS.slice(0, 24).map((hour) => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+            </select>
+            <span className="text-xs text-white/40">to</span>
+            <select
+              className={inputClass}
+              value={settings.workingHours.endHour}
+              onChange={(e) => updateHours({ endHour: Number(e.target.value) })}
+            >
+              {HOURS.slice(1).map((hour) => (
+                <option key={hour} value={hour} disabled={hour <= settings.workingHours.startHour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+          </Row>
+          <div className="flex gap-1.5 px-1">
+            {WEEKDAYS.map((name, day) => {
+              const active = settings.workingHours.days.includes(day)
+              return (
+                <button
+                  key={name}
+                  onClick={() => toggleDay(day)}
+                  className={`flex-1 py-1.5 rounded-lg text-xs border transition-colors ${active ? "bg-indigo-500/20 text-indigo-200 border-indigo-500/30" : "bg-white/5 text-white/40 border-white/10 hover:text-white"}`}
+                >
+                  {name}
+                </button>
+              )
+            })}
+          </div>
+        </Section>
+
+        <Section title="Voice input">
+          <Row label="Language" hint="Language you speak requests in">
+            <input
+              list="lanner-speech-languages"
+              className={`${inputClass} w-28`}
+              value={settings.speechLanguage}
+              onChange={(e) => update({ speechLanguage: e.target.value })}
+            />
+            <datalist id="lanner-speech-languages">
+              {SPEECH_LANGUAGES.map((lang) => <option key={lang} value={lang} />)}
+            </datalist>
+          </Row>
+        </Section>
+
+        <div className="flex items-center justify-end gap-3">
+          {error && <p className="flex-1 text-xs text-red-400">{error}</p>}
+          {saved && (
+            <span className="flex items-center gap-1 text-xs text-emerald-400">
+              <Check size={12} />
+              Saved
+            </span>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white text-black text-sm font-medium hover:bg-white/90 transition-colors disabled:opacity-50"
+          >
+            {isSaving && <Loader2 size={14} className="animate-spin" />}
+            Save
+          </button>
+        </div>
+
+        <Section title="Templates">
+          <p className="text-xs text-white/40 px-1">
+            Fill in what a request leaves out when it mentions the keyword, like "gym tomorrow 7am", or when you pick it by typing / in the composer.
+          </p>
+          <TemplateSettings templates={templates.value} onSave={templates.set} />
+        </Section>
+      </div>
+    </div>
+  )
+}
+
+export default OptionsIndex
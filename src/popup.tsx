@@ -1,68 +1,73 @@
-import { usePromptAPI } from "@ahnopologetic/use-prompt-api/react"
 import { AnimatePresence, motion } from "framer-motion"
-import { Calendar, Check, Loader2, Mic, RefreshCcw, Send } from "lucide-react"
+import { Loader2, Mic, ScrollText, Send, Settings, Users } from "lucide-react"
 import { useEffect, useState } from "react"
 
+import { AccountSwitcher } from "~components/AccountSwitcher"
+import { CalendarSelect } from "~components/CalendarSelect"
+import { EventReview } from "~components/EventReview"
 import { LannerAILogo } from "~components/LannerAILogo"
 import { ModelDownloadStatus } from "~components/ModelDownloadStatus"
+import { OutboxStatus } from "~components/OutboxStatus"
+import { PeopleSettings } from "~components/PeopleSettings"
+import { RecentChanges } from "~components/RecentChanges"
+import { RequestHistory } from "~components/RequestHistory"
+import { UndoToast } from "~components/UndoToast"
 import { Onboarding } from "~components/Onboarding"
 import { GoogleSignIn } from "~components/GoogleSignIn"
 import { AIModelAvailability, normalizeAvailability } from "~lib/ai"
-import { getUserConfig, saveUserConfig, type AIPreference } from "~lib/storage"
+import { composeRequest } from "~lib/composer"
+import type { HistoryEntry } from "~lib/history"
+import { getUserConfig, saveUserConfig, type AIPreference, type RemoteModelConfig } from "~lib/storage"
+import { useAccounts } from "./hooks/useAccounts"
+import { useCalendars } from "./hooks/useCalendars"
+import { useMentionShortcuts } from "./hooks/useMentionShortcuts"
+import { useModelProvider } from "./hooks/useModelProvider"
+import { useRequestFlow } from "./hooks/useRequestFlow"
 import { useSpeechRecognition } from "./hooks/useSpeechRecognition"
-import { createEvent, type CalendarEvent, getAuthToken } from "./lib/calendar"
+import { getContacts, type Contact } from "./lib/contacts"
+import { getAuthToken } from "./lib/googleApi"
 import "./style.css"
 
-// Move schema to a constant string for the prompt
-const SCHEMA_DEF = `
-{
-  "events": [
-    {
-      "title": "string",
-      "start": "ISO 8601 string (e.g., 2024-01-01T10:00:00)",
-      "end": "ISO 8601 string",
-      "location": "string (optional)",
-      "description": "string (optional)"
-    }
-  ]
-}
-`
-
 function IndexPopup() {
   const [textInput, setTextInput] = useState("")
-  const [generatedEvents, setGeneratedEvents] = useState<CalendarEvent[]>([])
-
-  // Status can include specific count if needed, but for now simple
-  const [status, setStatus] = useState<"idle" | "generating" | "review" | "creating" | "success" | "error">("idle")
-  const [errorMessage, setErrorMessage] = useState("")
+  // Past requests from here and the overlay
+  const [showHistory, setShowHistory] = useState(false)
 
   // Onboarding & Config & Auth
   const [isOnboarding, setIsOnboarding] = useState(true)
   const [isConfigLoading, setIsConfigLoading] = useState(true)
   const [isAuthenticated, setIsAuthenticated] = useState(false)
+  // Attendee suggestions when editing events
+  const [contacts, setContacts] = useState<Contact[]>([])
 
   // Model download states
   const [capabilityStatus, setCapabilityStatus] = useState<AIModelAvailability>(AIModelAvailability.UNKNOWN)
+  // Offline rule-based parsing when the on-device model can't be used
+  const [isBasicMode, setIsBasicMode] = useState(false)
 
   const { isListening, transcript, startListening, stopListening, resetTranscript } = useSpeechRecognition()
 
-  const { prompt, ready } = usePromptAPI({
-    systemPrompt: `You are a helpful calendar assistant. 
-        The current time and timezone is ${new Date().toTimeString()}.
-        The current date is ${new Date().toDateString()}.
-        
-        INSTRUCTIONS:
-        1. Extract ONE OR MORE event details from the user's request.
-        2. Respond ONLY with valid JSON matching this structure:
-        ${SCHEMA_DEF}
-        3. Rules:
-        ${"   "}- 'start' and 'end' MUST be valid ISO 8601 strings.
-        ${"   "}- If no end time, assume 1 hour.
-        ${"   "}- If no date, assume tomorrow.
-        ${"   "}- Infer relative dates from today.
-        ${"   "}- Do not add any markdown formatting (no markdown code blocks). Just the raw JSON string.
-        `
+  const { prompt, ready, isRemote } = useModelProvider()
+
+  // Linked Google accounts; the active one is used for new events and contacts
+  const accounts = useAccounts(isAuthenticated)
+  const activeEmail = accounts.activeAccount?.email
+  // Calendars new events can be written to
+  const { calendars, defaultCalendarId, changeDefault } = useCalendars(isAuthenticated, activeEmail)
+  // @group and @alias mentions, edited in the people settings
+  const mentionShortcuts = useMentionShortcuts(isAuthenticated, activeEmail)
+  const [showPeopleSettings, setShowPeopleSettings] = useState(false)
+  const isModelAvailable = isRemote || capabilityStatus === AIModelAvailability.AVAILABLE
+  const useModel = isModelAvailable && ready
+
+  // The request being planned and reviewed
+  const flow = useRequestFlow({
+    prompt: useModel ? prompt : null,
+    canPlan: useModel || isBasicMode,
+    choice: { accountId: activeEmail, calendars, defaultCalendarId },
+    onFinished: () => setTextInput("")
   })
+  const { status } = flow
 
   useEffect(() => {
     const init = async () => {
@@ -83,6 +88,13 @@ function IndexPopup() {
     checkCapabilities()
   }, [])
 
+  // Contacts belong to the active account; reload them whenever it changes
+  useEffect(() => {
+    if (isAuthenticated) {
+      getContacts().then(setContacts).catch(e => console.warn("Couldn't load contacts", e))
+    }
+  }, [isAuthenticated, activeEmail])
+
   // Sync speech transcript to text input
   useEffect(() => {
     if (transcript) {
@@ -104,8 +116,8 @@ function IndexPopup() {
     }
   }
 
-  const handleOnboardingComplete = async (pref: AIPreference) => {
-    await saveUserConfig({ aiPreference: pref, onboardingCompleted: true })
+  const handleOnboardingComplete = async (pref: AIPreference, remoteModel?: RemoteModelConfig) => {
+    await saveUserConfig({ aiPreference: pref, onboardingCompleted: true, remoteModel })
     setIsOnboarding(false)
   }
 
@@ -113,75 +125,13 @@ function IndexPopup() {
     setIsAuthenticated(true)
   }
 
-  const handleGenerate = async () => {
-    if (!textInput.trim() || !ready) return
-    setStatus("generating")
-    setErrorMessage("")
-
-    try {
-      const rawResult = await prompt(`User Request: ${textInput}`)
-
-      // clean up markdown if present
-      const cleanJson = rawResult.replace(/```json\n?|\n?```/g, "").trim()
-      const result = JSON.parse(cleanJson) // Expected { events: [...] }
-
-      // Validate basic structure
-      if (!result.events || !Array.isArray(result.events)) {
-        throw new Error("Invalid output format: expected 'events' array")
-      }
-
-      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
-
-      const events: CalendarEvent[] = result.events.map((evt: any) => {
-        if (!evt.title || !evt.start || !evt.end) {
-          throw new Error("Invalid event parameters")
-        }
-        return {
-          summary: evt.title,
-          description: evt.description,
-          location: evt.location,
-          start: {
-            dateTime: evt.start,
-            timeZone: timeZone
-          },
-          end: {
-            dateTime: evt.end,
-            timeZone: timeZone
-          }
-        }
-      })
-
-      setGeneratedEvents(events)
-      setStatus("review")
-    } catch (e) {
-      console.error(e)
-      setStatus("error")
-      setErrorMessage("Failed to parse event. Please try again.")
-    }
-  }
-
-  const handleApprove = async () => {
-    if (generatedEvents.length === 0) return
-    setStatus("creating")
-    try {
-      // Create all events in parallel
-      await Promise.all(generatedEvents.map(evt => createEvent(evt)))
-
-      setStatus("success")
-      setTimeout(() => {
-        setTextInput("")
-        setGeneratedEvents([])
-        setStatus("idle")
-      }, 2000)
-    } catch (e: any) {
-      setStatus("error")
-      setErrorMessage(e.message)
-    }
-  }
-
-  const handleRetry = () => {
-    setGeneratedEvents([])
-    setStatus("idle")
+  // Past requests are planned again as of now, so "tomorrow" is tomorrow.
+  // Contacts picked as chips in the overlay come along.
+  const handleRerun = (entry: HistoryEntry) => {
+    setShowHistory(false)
+    setShowPeopleSettings(false)
+    setTextInput(composeRequest(entry.input, entry.mentions || []).text)
+    flow.generate(entry.input, entry.mentions || [])
   }
 
   if (isConfigLoading) {
@@ -207,7 +157,23 @@ function IndexPopup() {
       )
     }
 
-    if (capabilityStatus !== AIModelAvailability.AVAILABLE) {
+    if (showHistory) {
+      return <RequestHistory onRerun={handleRerun} onClose={() => setShowHistory(false)} />
+    }
+
+    if (showPeopleSettings) {
+      return (
+        <PeopleSettings
+          shortcuts={mentionShortcuts.shortcuts}
+          isImporting={mentionShortcuts.isImporting}
+          onSave={mentionShortcuts.saveCustom}
+          onImport={mentionShortcuts.importGoogleGroups}
+          onClose={() => setShowPeopleSettings(false)}
+        />
+      )
+    }
+
+    if (!isModelAvailable && !isBasicMode) {
       return (
         <motion.div
           key="download"
@@ -216,7 +182,7 @@ function IndexPopup() {
           exit={{ opacity: 0, x: -20 }}
           transition={{ duration: 0.2 }}
         >
-          <ModelDownloadStatus availability={capabilityStatus} />
+          <ModelDownloadStatus availability={capabilityStatus} onUseBasicMode={() => setIsBasicMode(true)} />
         </motion.div>
       )
     }
@@ -253,8 +219,8 @@ function IndexPopup() {
               </button>
 
               <button
-                onClick={handleGenerate}
-                disabled={!textInput.trim() || status === "generating" || !ready}
+                onClick={() => flow.generate(textInput)}
+                disabled={!textInput.trim() || status === "generating" || (!ready && !isBasicMode)}
                 className={`
                                                 flex items-center justify-center p-2.5 rounded-2xl transition-all duration-300
                                                 ${!textInput.trim() || status === "generating"
@@ -271,11 +237,34 @@ function IndexPopup() {
             </div>
           </div>
 
+          {isBasicMode && !isModelAvailable && (
+            <div className="flex items-center justify-between text-xs text-white/40 px-1">
+              <span>Basic mode: AI unavailable, using the offline parser.</span>
+              <button
+                onClick={() => setIsBasicMode(false)}
+                className="underline underline-offset-2 hover:text-white transition-colors"
+              >
+                Set up AI
+              </button>
+            </div>
+          )}
+
           {status === "error" && (
             <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-3 text-red-400 text-sm animate-in fade-in slide-in-from-top-2">
-              {errorMessage || "Something went wrong."}
+              {flow.errorMessage || "Something went wrong."}
             </div>
           )}
+
+          {status === "idle" && (
+            <CalendarSelect
+              calendars={calendars}
+              value={defaultCalendarId}
+              onChange={changeDefault}
+              label="New events go to"
+            />
+          )}
+          {status === "idle" && <OutboxStatus />}
+          {status === "idle" && <RecentChanges />}
         </motion.div>
       )
     }
@@ -290,67 +279,13 @@ function IndexPopup() {
         transition={{ duration: 0.2 }}
         className="space-y-6"
       >
-        {status === "success" ? (
-          <div className="flex flex-col items-center justify-center py-8 text-center animate-in zoom-in-95 duration-300">
-            <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mb-4 ring-1 ring-green-500/30">
-              <Check size={32} className="text-green-400" />
-            </div>
-            <h3 className="text-xl font-bold text-white mb-1">Scheduled!</h3>
-            <p className="text-gray-400 text-sm">Your events have been added to the calendar.</p>
-          </div>
-        ) : (
-          <>
-            <div className="max-h-60 overflow-y-auto space-y-2 pr-2 -mr-2 scrollbar-none">
-              {generatedEvents.map((evt, idx) => (
-                <motion.div
-                  key={idx}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: idx * 0.05 }}
-                  className="group bg-white/5 hover:bg-white/10 border border-white/5 hover:border-white/10 p-4 rounded-2xl transition-all duration-200"
-                >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="space-y-1">
-                      <h3 className="font-semibold text-white/90 text-sm leading-tight">{evt.summary}</h3>
-                      {evt.location && (
-                        <p className="text-xs text-white/40 flex items-center gap-1.5">
-                          <span className="w-1 h-1 rounded-full bg-white/30"></span>
-                          {evt.location}
-                        </p>
-                      )}
-                    </div>
-                    <div className="text-xs font-medium text-white/60 bg-white/5 px-2 py-1 rounded-lg whitespace-nowrap">
-                      {evt.start.dateTime ? new Date(evt.start.dateTime).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }) : ""}
-                      <div className="text-[10px] text-white/30 text-right uppercase tracking-wider mt-0.5">
-                        {evt.start.dateTime ? new Date(evt.start.dateTime).toLocaleDateString([], { month: 'short', day: 'numeric' }) : ""}
-                      </div>
-                    </div>
-                  </div>
-                  {evt.description && (
-                    <p className="mt-2 text-xs text-white/40 line-clamp-2 px-0.5">{evt.description}</p>
-                  )}
-                </motion.div>
-              ))}
-            </div>
-
-            <div className="grid grid-cols-2 gap-3">
-              <button
-                onClick={handleRetry}
-                className="flex items-center justify-center gap-2 px-4 py-3 bg-white/5 hover:bg-white/10 text-white/60 hover:text-white rounded-xl font-medium transition-all text-sm group"
-              >
-                <RefreshCcw size={16} className="group-hover:-rotate-180 transition-transform duration-500" />
-                <span>Retry</span>
-              </button>
-              <button
-                onClick={handleApprove}
-                className="flex items-center justify-center gap-2 px-4 py-3 bg-white text-black hover:bg-gray-200 rounded-xl font-bold transition-all shadow-lg shadow-white/5 active:scale-95 text-sm"
-              >
-                {status === "creating" ? <Loader2 size={16} className="animate-spin" /> : <Calendar size={16} />}
-                <span>Add to Calendar</span>
-              </button>
-            </div>
-          </>
-        )}
+        <EventReview
+          flow={flow}
+          calendars={calendars}
+          defaultCalendarId={defaultCalendarId}
+          contacts={contacts}
+          shortcuts={mentionShortcuts.shortcuts}
+        />
       </motion.div>
     )
   }
@@ -372,6 +307,39 @@ function IndexPopup() {
           </span>
         </div>
         {/* No close button needed for popup */}
+        {isAuthenticated && !isOnboarding && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => { setShowHistory(!showHistory); setShowPeopleSettings(false) }}
+              className={`p-1.5 rounded-full transition-colors ${showHistory ? "bg-white/10 text-white" : "text-white/40 hover:text-white hover:bg-white/10"}`}
+              title="History"
+            >
+              <ScrollText size={14} />
+            </button>
+            <button
+              onClick={() => { setShowPeopleSettings(!showPeopleSettings); setShowHistory(false) }}
+              className={`p-1.5 rounded-full transition-colors ${showPeopleSettings ? "bg-white/10 text-white" : "text-white/40 hover:text-white hover:bg-white/10"}`}
+              title="Groups & aliases"
+            >
+              <Users size={14} />
+            </button>
+            <button
+              onClick={() => chrome.runtime.openOptionsPage()}
+              className="p-1.5 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+              title="Settings"
+            >
+              <Settings size={14} />
+            </button>
+            <AccountSwitcher
+              accounts={accounts.accounts}
+              activeAccount={accounts.activeAccount}
+              isLinking={accounts.isLinking}
+              onSwitch={accounts.switchAccount}
+              onAdd={accounts.addAccount}
+              onRemove={accounts.unlinkAccount}
+            />
+          </div>
+        )}
       </div>
 
       <div className="p-6 pt-2 h-full flex flex-col">
@@ -392,6 +360,15 @@ function IndexPopup() {
           )}
         </AnimatePresence>
       </div>
+
+      {/* Undo toast - stays after the review resets */}
+      <div className="fixed bottom-4 inset-x-4 flex justify-center pointer-events-none">
+        <AnimatePresence>
+          {flow.lastChange && (
+            <UndoToast key={flow.lastChange.id} change={flow.lastChange} onDismiss={flow.dismissChange} />
+          )}
+        </AnimatePresence>
+      </div>
     </motion.div>
   )
 }